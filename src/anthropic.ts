@@ -0,0 +1,756 @@
+/**
+ * Anthropic Messages API (/v1/messages)
+ * Translates Anthropic content blocks into chat messages, runs them through
+ * the same conversion and OllamaClient.chatCompletion path as /v1/chat/completions,
+ * and returns Anthropic-shaped messages and SSE events
+ */
+
+import { validateAuth } from './auth';
+import {
+  applyRequestTools,
+  describeToolCallFailure,
+  generateChoice,
+  logToolCallCheck,
+  retryInvalidToolCalls,
+  type GeneratedChoice
+} from './chat';
+import { TOOL_CALL_VALIDATION } from './config';
+import { applyContextLimit, countPromptTokens, withContextTrimHeader } from './context';
+import { generateRequestId, isAbortError } from './errors';
+import { attachMessageImages, hasImageContent } from './images';
+import { logCancelled, logChatRequest, logChatResponse, logError, logStreamingComplete, logStreamingStart } from './logger';
+import { mapDoneReason } from './ollama-utils';
+import { getModelService, getOllamaClient } from './services/container';
+import { createStopSequenceFilter, normalizeStopSequences } from './stop-sequences';
+import { countTokens } from './tokenizer';
+import { usesToolEmulation } from './tool-emulation';
+import { checkToolCalls, convertFromOllamaToolCalls, parseToolArguments, requiresToolCall, type ToolCallCheck } from './tools';
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaOptions,
+  OllamaToolCall,
+  OpenAIChatRequest,
+  OpenAIErrorResponse,
+  OpenAIMessage,
+  OpenAIToolCall
+} from './types';
+import { convertToOllamaMessages } from './utils';
+import { createApiHeaders, createStreamHeaders } from './utils/headers';
+import { startHeartbeat, type Heartbeat } from './utils/heartbeat';
+import { validateModel } from './validation';
+
+type AnthropicTextBlock = { type: 'text'; text: string };
+
+type AnthropicImageBlock = {
+  type: 'image';
+  source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+};
+
+type AnthropicToolUseBlock = { type: 'tool_use'; id: string; name: string; input: unknown };
+
+type AnthropicToolResultBlock = {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+};
+
+type AnthropicThinkingBlock = { type: 'thinking'; thinking: string; signature: string };
+
+type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicThinkingBlock
+  | { type: 'redacted_thinking'; data: string };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: unknown;
+  type?: string;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string | AnthropicTextBlock[];
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  tools?: AnthropicTool[];
+  tool_choice?:
+    | { type: 'auto' | 'any' | 'none'; disable_parallel_tool_use?: boolean }
+    | { type: 'tool'; name: string; disable_parallel_tool_use?: boolean };
+  thinking?: { type: 'enabled'; budget_tokens: number } | { type: 'disabled' };
+  metadata?: { user_id?: string };
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<AnthropicTextBlock | AnthropicToolUseBlock | AnthropicThinkingBlock>;
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+const generateMessageId = () => `msg_${Math.random().toString(36).substring(2, 15)}`;
+
+/** Anthropic SDKs expect tool_use ids in their toolu_ format */
+const toToolUseId = (toolCallId: string) => toolCallId.replace(/^call_/, 'toolu_');
+
+/**
+ * Anthropic clients expect their own error envelope rather than OpenAI's
+ */
+const createAnthropicErrorResponse = (requestId: string, message: string, type: string, status = 400): Response =>
+  new Response(JSON.stringify({ type: 'error', error: { type, message } }), {
+    status,
+    headers: createApiHeaders(requestId)
+  });
+
+/**
+ * Converts an OpenAI-style error response from the shared chat helpers
+ */
+const toAnthropicErrorResponse = async (requestId: string, response: Response): Promise<Response> => {
+  const { error } = await response.json() as OpenAIErrorResponse;
+  return createAnthropicErrorResponse(requestId, error.message, response.status < 500 ? 'invalid_request_error' : 'api_error', response.status);
+};
+
+const mapStopReason = (doneReason: string | undefined, hasToolCalls: boolean): AnthropicStopReason => {
+  switch (mapDoneReason(doneReason, hasToolCalls)) {
+    case 'tool_calls': return 'tool_use';
+    case 'length': return 'max_tokens';
+    default: return 'end_turn';
+  }
+};
+
+const convertImageBlock = (block: AnthropicImageBlock) => ({
+  type: 'image_url',
+  image_url: {
+    url: block.source.type === 'base64'
+      ? `data:${block.source.media_type};base64,${block.source.data}`
+      : block.source.url
+  }
+});
+
+const convertToolResultContent = (block: AnthropicToolResultBlock): string => {
+  const text = typeof block.content === 'string'
+    ? block.content
+    : (block.content || []).filter((part): part is AnthropicTextBlock => part.type === 'text').map(part => part.text).join('\n');
+  return block.is_error ? `Error: ${text}` : text;
+};
+
+/**
+ * Convert Anthropic system + messages into chat messages
+ * tool_result blocks become tool messages ahead of the rest of the user turn,
+ * tool_use blocks become assistant tool_calls keeping their ids
+ */
+export const convertAnthropicMessages = (
+  messages: AnthropicMessage[],
+  system?: AnthropicMessagesRequest['system']
+): OpenAIMessage[] => {
+  const converted: OpenAIMessage[] = [];
+
+  const systemText = typeof system === 'string' ? system : (system || []).map(block => block.text).join('\n');
+  if (systemText) {
+    converted.push({ role: 'system', content: systemText });
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      converted.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .filter((block): block is AnthropicTextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      const toolCalls: OpenAIToolCall[] = message.content
+        .filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+        }));
+
+      converted.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+      });
+      continue;
+    }
+
+    const parts: NonNullable<Exclude<OpenAIMessage['content'], string | null>> = [];
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        converted.push({ role: 'tool', tool_call_id: block.tool_use_id, content: convertToolResultContent(block) });
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image') {
+        parts.push(convertImageBlock(block));
+      }
+    }
+
+    if (parts.length > 0) {
+      converted.push({ role: 'user', content: parts });
+    }
+  }
+
+  return converted;
+};
+
+/**
+ * The chat completions form of a Messages request, so tool_choice and
+ * stop_sequences get the same handling as on /v1/chat/completions
+ */
+const toChatRequest = (body: AnthropicMessagesRequest, messages: OpenAIMessage[]): OpenAIChatRequest => {
+  const toolChoice = body.tool_choice;
+  return {
+    model: body.model,
+    messages,
+    tools: body.tools?.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+    })),
+    tool_choice: toolChoice?.type === 'tool'
+      ? { type: 'function', function: { name: toolChoice.name } }
+      : toolChoice?.type === 'any' ? 'required' : toolChoice?.type,
+    ...(toolChoice?.disable_parallel_tool_use && { parallel_tool_calls: false }),
+    stop: body.stop_sequences
+  };
+};
+
+/**
+ * Usage of a streamed generation, counted locally when it was cut at a stop
+ * sequence before Ollama sent its counts
+ */
+const buildAnthropicUsage = (
+  ollamaResponse: OllamaChatResponse | undefined,
+  promptTokens: number,
+  output: string
+): AnthropicUsage => ({
+  input_tokens: ollamaResponse?.prompt_eval_count || promptTokens,
+  output_tokens: ollamaResponse?.eval_count || countTokens(output)
+});
+
+const stopReasonOf = (generated: GeneratedChoice): AnthropicStopReason =>
+  generated.stopSequence !== undefined
+    ? 'stop_sequence'
+    : mapStopReason(generated.doneReason, !!generated.choice.message.tool_calls?.length);
+
+const validateMessagesRequest = (body: AnthropicMessagesRequest, requestId: string): Response | null => {
+  if (!body.model) {
+    return createAnthropicErrorResponse(requestId, 'model: Field required', 'invalid_request_error');
+  }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return createAnthropicErrorResponse(requestId, 'messages: at least one message is required', 'invalid_request_error');
+  }
+  if (typeof body.max_tokens !== 'number' || !Number.isInteger(body.max_tokens) || body.max_tokens < 1) {
+    return createAnthropicErrorResponse(requestId, 'max_tokens: must be a positive integer', 'invalid_request_error');
+  }
+  if (body.temperature !== undefined && (body.temperature < 0 || body.temperature > 1)) {
+    return createAnthropicErrorResponse(requestId, 'temperature: must be between 0 and 1', 'invalid_request_error');
+  }
+  if (body.top_p !== undefined && (body.top_p < 0 || body.top_p > 1)) {
+    return createAnthropicErrorResponse(requestId, 'top_p: must be between 0 and 1', 'invalid_request_error');
+  }
+  const unsupportedTool = (body.tools || []).find(tool => !tool.input_schema);
+  if (unsupportedTool) {
+    return createAnthropicErrorResponse(requestId, 
+      `tools: '${unsupportedTool.name}' has no input_schema, server tools are not supported`,
+      'invalid_request_error'
+    );
+  }
+  const toolChoice = body.tool_choice;
+  if (toolChoice !== undefined) {
+    if (!toolChoice || !['auto', 'any', 'none', 'tool'].includes(toolChoice.type)) {
+      return createAnthropicErrorResponse(requestId, 'tool_choice: type must be auto, any, tool or none', 'invalid_request_error');
+    }
+    if ((toolChoice.type === 'any' || toolChoice.type === 'tool') && !body.tools?.length) {
+      return createAnthropicErrorResponse(requestId, `tool_choice: type ${toolChoice.type} requires tools`, 'invalid_request_error');
+    }
+    if (toolChoice.type === 'tool' && !body.tools?.some(tool => tool.name === toolChoice.name)) {
+      return createAnthropicErrorResponse(requestId, `tool_choice: tool '${toolChoice.name}' is not in tools`, 'invalid_request_error');
+    }
+  }
+  return null;
+};
+
+export const handleMessages = async (req: Request): Promise<Response> => {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    const body = await req.json() as AnthropicMessagesRequest;
+
+    logChatRequest(requestId, {
+      endpoint: '/v1/messages',
+      model: body.model,
+      system: body.system,
+      messages: body.messages,
+      max_tokens: body.max_tokens,
+      stream: body.stream,
+      tools: body.tools,
+      thinking: body.thinking
+    });
+
+    const validation = validateMessagesRequest(body, requestId);
+    if (validation) return validation;
+
+    const modelService = getModelService();
+    const modelsResponse = await modelService.getOpenAIModels();
+    if (!validateModel(body.model, modelsResponse.data.map((m) => m.id))) {
+      return createAnthropicErrorResponse(requestId, `model: ${body.model}`, 'not_found_error', 404);
+    }
+
+    const messages = convertAnthropicMessages(body.messages, body.system);
+    const chatRequest = toChatRequest(body, messages);
+    const ollamaMessages = convertToOllamaMessages(messages);
+
+    if (hasImageContent(messages)) {
+      const capabilities = await modelService.getModelCapabilities(body.model);
+      if (capabilities && !capabilities.includes('vision')) {
+        return createAnthropicErrorResponse(requestId, 
+          `The model '${body.model}' does not support image inputs`,
+          'invalid_request_error'
+        );
+      }
+
+      const imageError = await attachMessageImages(messages, ollamaMessages);
+      if (imageError) {
+        const { error } = await imageError.json() as { error: { message: string } };
+        return createAnthropicErrorResponse(requestId, error.message, 'invalid_request_error');
+      }
+    }
+
+    const options: OllamaOptions = { num_predict: body.max_tokens };
+    if (body.temperature !== undefined) options.temperature = body.temperature;
+    if (body.top_p !== undefined) options.top_p = body.top_p;
+    if (body.top_k !== undefined) options.top_k = body.top_k;
+    // stop_sequences are matched here rather than upstream, so the sequence that ended the message is known
+
+    const ollamaRequest: OllamaChatRequest = {
+      model: body.model,
+      messages: ollamaMessages,
+      stream: !!body.stream,
+      options
+    };
+
+    await applyRequestTools(ollamaRequest, chatRequest);
+
+    if (body.thinking) {
+      ollamaRequest.think = body.thinking.type === 'enabled';
+    }
+
+    const contextTrim = await applyContextLimit(ollamaRequest, requestId);
+    if (contextTrim instanceof Response) {
+      const { error } = await contextTrim.json() as { error: { message: string } };
+      return createAnthropicErrorResponse(requestId, error.message, 'invalid_request_error');
+    }
+
+    if (body.stream) {
+      return withContextTrimHeader(
+        await handleStreamingMessages(ollamaRequest, body, chatRequest, requestId, req.signal, contextTrim?.promptTokensAfter),
+        contextTrim
+      );
+    }
+
+    return withContextTrimHeader(await handleNonStreamingMessages(ollamaRequest, body, chatRequest, requestId, req.signal), contextTrim);
+  } catch (error) {
+    logError(requestId, error);
+    return createAnthropicErrorResponse(requestId, (error as Error).message || 'Internal server error', 'api_error', 500);
+  }
+};
+
+/**
+ * Content blocks of a generated chat choice: thinking, text, then tool_use
+ */
+const buildContentBlocks = (generated: GeneratedChoice): AnthropicMessagesResponse['content'] => {
+  const { message } = generated.choice;
+  const content: AnthropicMessagesResponse['content'] = [];
+
+  if (message.reasoning_content) {
+    content.push({ type: 'thinking', thinking: message.reasoning_content, signature: '' });
+  }
+  if (typeof message.content === 'string' && message.content) {
+    content.push({ type: 'text', text: message.content });
+  }
+  for (const toolCall of message.tool_calls || []) {
+    content.push({
+      type: 'tool_use',
+      id: toToolUseId(toolCall.id),
+      name: toolCall.function.name,
+      input: parseToolArguments(toolCall.function.arguments)
+    });
+  }
+  return content;
+};
+
+export const handleNonStreamingMessages = async (
+  ollamaRequest: OllamaChatRequest,
+  body: AnthropicMessagesRequest,
+  chatRequest: OpenAIChatRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  try {
+    const generated = await generateChoice({ ...ollamaRequest, stream: false }, body.model, chatRequest, requestId, 0, signal);
+    if (generated instanceof Response) return toAnthropicErrorResponse(requestId, generated);
+
+    const message: AnthropicMessagesResponse = {
+      id: generateMessageId(),
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content: buildContentBlocks(generated),
+      stop_reason: stopReasonOf(generated),
+      stop_sequence: generated.stopSequence ?? null,
+      usage: { input_tokens: generated.usage.prompt_tokens, output_tokens: generated.usage.completion_tokens }
+    };
+
+    logChatResponse(requestId, message, false, { doneReason: generated.doneReason });
+
+    return new Response(JSON.stringify(message), {
+      headers: createApiHeaders(requestId)
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      logCancelled(requestId, { model: body.model, stream: false, reason: 'client disconnected' });
+      return createAnthropicErrorResponse(requestId, 'Client closed request', 'invalid_request_error', 499);
+    }
+    logError(requestId, error);
+    return createAnthropicErrorResponse(requestId, (error as Error).message || 'Internal server error', 'api_error', 500);
+  }
+};
+
+export const handleStreamingMessages = async (
+  ollamaRequest: OllamaChatRequest,
+  body: AnthropicMessagesRequest,
+  chatRequest: OpenAIChatRequest,
+  requestId: string,
+  signal?: AbortSignal,
+  promptTokens = countPromptTokens(ollamaRequest.messages, ollamaRequest.tools)
+): Promise<Response> => {
+  const messageId = generateMessageId();
+  const streamingStartTime = Date.now();
+  const upstreamAbort = new AbortController();
+  let fullContent = '';
+  let cancelled = false;
+  let heartbeat: Heartbeat | undefined;
+
+  signal?.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
+  const cancelStream = (reason: string) => {
+    if (cancelled) return;
+    cancelled = true;
+    heartbeat?.stop();
+    upstreamAbort.abort();
+    logCancelled(requestId, { messageId, model: body.model, fullContent, reason });
+  };
+
+  logStreamingStart(requestId, body.model);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let controllerClosed = false;
+      let blockIndex = -1;
+      let openBlock: 'text' | 'thinking' | null = null;
+      let toolUseCount = 0;
+      let finalData: OllamaChatResponse | undefined;
+      let thinking = '';
+      let stopReason: AnthropicStopReason | undefined;
+      let stopSequence: string | undefined;
+      const stopFilter = createStopSequenceFilter(normalizeStopSequences(body.stop_sequences));
+      const validateToolCalls = TOOL_CALL_VALIDATION && !!chatRequest.tools?.length;
+      let rejectedToolCalls: ToolCallCheck | undefined;
+
+      // Anthropic's own ping event keeps the stream alive, also while a replayed generation runs
+      heartbeat = startHeartbeat(() => {
+        if (controllerClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ping\ndata: ${JSON.stringify({ type: 'ping' })}\n\n`));
+        } catch (error) {
+          controllerClosed = true;
+        }
+      });
+
+      const writeEvent = (type: string, data: Record<string, unknown>) => {
+        if (controllerClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`));
+          heartbeat?.touch();
+        } catch (error) {
+          controllerClosed = true;
+          console.warn('Controller closed, stopping writes');
+        }
+      };
+
+      const closeBlock = () => {
+        if (openBlock === null) return;
+        if (openBlock === 'thinking') {
+          writeEvent('content_block_delta', { index: blockIndex, delta: { type: 'signature_delta', signature: '' } });
+        }
+        writeEvent('content_block_stop', { index: blockIndex });
+        openBlock = null;
+      };
+
+      const appendDelta = (kind: 'text' | 'thinking', text: string) => {
+        if (openBlock !== kind) {
+          closeBlock();
+          blockIndex++;
+          openBlock = kind;
+          writeEvent('content_block_start', {
+            index: blockIndex,
+            content_block: kind === 'text' ? { type: 'text', text: '' } : { type: 'thinking', thinking: '', signature: '' }
+          });
+        }
+        writeEvent('content_block_delta', {
+          index: blockIndex,
+          delta: kind === 'text' ? { type: 'text_delta', text } : { type: 'thinking_delta', thinking: text }
+        });
+      };
+
+      const writeToolUse = (toolCall: OpenAIToolCall) => {
+        closeBlock();
+        blockIndex++;
+        toolUseCount++;
+        writeEvent('content_block_start', {
+          index: blockIndex,
+          content_block: { type: 'tool_use', id: toToolUseId(toolCall.id), name: toolCall.function.name, input: {} }
+        });
+        writeEvent('content_block_delta', {
+          index: blockIndex,
+          delta: { type: 'input_json_delta', partial_json: toolCall.function.arguments }
+        });
+        writeEvent('content_block_stop', { index: blockIndex });
+      };
+
+      const writeToolUses = (toolCalls: OllamaToolCall[]) => {
+        for (const toolCall of convertFromOllamaToolCalls(toolCalls)) {
+          if (chatRequest.parallel_tool_calls === false && toolUseCount > 0) continue;
+          writeToolUse(toolCall);
+        }
+      };
+
+      const appendText = (text: string) => {
+        if (!text) return;
+        fullContent += text;
+        appendDelta('text', text);
+      };
+
+      const processOllamaData = (ollamaData: OllamaChatResponse) => {
+        if (stopSequence !== undefined) return;
+        if (ollamaData.message?.thinking) {
+          thinking += ollamaData.message.thinking;
+          appendDelta('thinking', ollamaData.message.thinking);
+        }
+        if (ollamaData.message?.content) {
+          const { text, sequence } = stopFilter.push(ollamaData.message.content);
+          appendText(text);
+          if (sequence !== undefined) {
+            stopSequence = sequence;
+            return;
+          }
+        }
+        let toolCalls = ollamaData.message?.tool_calls || [];
+        if (validateToolCalls && toolCalls.length > 0) {
+          // Valid calls go out right away, rejected ones are re-asked once the generation is done
+          const check = logToolCallCheck(requestId, body.model, 1, checkToolCalls(toolCalls, chatRequest.tools!));
+          if (check.errors.length > 0) {
+            const rejected = rejectedToolCalls ??= { valid: [], invalid: [], errors: [], repairs: [] };
+            rejected.invalid.push(...check.invalid);
+            rejected.errors.push(...check.errors);
+          }
+          toolCalls = check.valid;
+        }
+        writeToolUses(toolCalls);
+        if (ollamaData.done) {
+          appendText(stopFilter.flush());
+          finalData = ollamaData;
+        }
+      };
+
+      const finishMessage = (usage: AnthropicUsage) => {
+        closeBlock();
+        writeEvent('message_delta', {
+          delta: { stop_reason: stopReason, stop_sequence: stopSequence ?? null },
+          usage: { input_tokens: usage.input_tokens, output_tokens: usage.output_tokens }
+        });
+        writeEvent('message_stop', {});
+      };
+
+      // Forced tool calls are checked on the completed output, so it is generated in full and then sent as events
+      const replayGeneration = async () => {
+        const generated = await generateChoice({ ...ollamaRequest, stream: false }, body.model, chatRequest, requestId, 0, upstreamAbort.signal);
+        if (generated instanceof Response) {
+          const { error } = await generated.json() as OpenAIErrorResponse;
+          writeEvent('error', { error: { type: generated.status < 500 ? 'invalid_request_error' : 'api_error', message: error.message } });
+          return;
+        }
+
+        for (const block of buildContentBlocks(generated)) {
+          if (block.type === 'thinking') appendDelta('thinking', block.thinking);
+          if (block.type === 'text') appendText(block.text);
+        }
+        (generated.choice.message.tool_calls || []).forEach(writeToolUse);
+
+        stopReason = stopReasonOf(generated);
+        stopSequence = generated.stopSequence;
+        finishMessage({ input_tokens: generated.usage.prompt_tokens, output_tokens: generated.usage.completion_tokens });
+      };
+
+      writeEvent('message_start', {
+        message: {
+          id: messageId,
+          type: 'message',
+          role: 'assistant',
+          model: body.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: promptTokens, output_tokens: 0 }
+        }
+      });
+      writeEvent('ping', {});
+
+      const streamFromUpstream = async () => {
+        const ollamaClient = getOllamaClient();
+        const response = await ollamaClient.chatCompletion(body.model, ollamaRequest.messages, {
+          ...ollamaRequest,
+          stream: true
+        }, upstreamAbort.signal);
+
+        if (!response.ok || !response.body) {
+          const errorText = await response.text();
+          console.error(`Ollama error ${response.status}:`, errorText);
+          throw new Error(`Ollama request failed: ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+          while (!finalData && stopSequence === undefined && !controllerClosed) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+              if (!line.trim()) continue;
+              try {
+                processOllamaData(JSON.parse(line));
+              } catch (parseError) {
+                console.error('JSON parse error:', parseError, 'Line:', line);
+              }
+            }
+          }
+
+          if (buffer.trim() && !finalData) {
+            try {
+              processOllamaData(JSON.parse(buffer.trim()));
+            } catch (parseError) {
+              console.error('Final buffer parse error:', parseError);
+            }
+          }
+          if (!finalData && stopSequence === undefined) {
+            appendText(stopFilter.flush());
+          }
+        } finally {
+          // A stop sequence ends the generation upstream as well
+          if (stopSequence !== undefined) {
+            await reader.cancel().catch(() => {});
+          }
+          reader.releaseLock();
+        }
+
+        if (rejectedToolCalls && stopSequence === undefined && !controllerClosed) {
+          const retried = await retryInvalidToolCalls(
+            rejectedToolCalls, ollamaRequest, body.model, chatRequest.tools!, requestId, fullContent, upstreamAbort.signal
+          );
+          if (retried.errors.length > 0) {
+            closeBlock();
+            writeEvent('error', { error: { type: 'api_error', message: describeToolCallFailure(retried.errors) } });
+            return;
+          }
+          writeToolUses(retried.valid);
+        }
+
+        stopReason = stopSequence !== undefined ? 'stop_sequence' : mapStopReason(finalData?.done_reason, toolUseCount > 0);
+        finishMessage(buildAnthropicUsage(finalData, promptTokens, thinking + fullContent));
+      };
+
+      try {
+        await (requiresToolCall(chatRequest) || usesToolEmulation(ollamaRequest, chatRequest)
+          ? replayGeneration()
+          : streamFromUpstream());
+      } catch (error) {
+        if (isAbortError(error) || cancelled) {
+          cancelStream('client disconnected');
+          controllerClosed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream may already be cancelled
+          }
+          return;
+        }
+        logError(requestId, error);
+        writeEvent('error', { error: { type: 'api_error', message: (error as Error).message || 'Internal streaming error' } });
+      }
+
+      heartbeat.stop();
+      if (!controllerClosed) {
+        controller.close();
+        controllerClosed = true;
+        logStreamingComplete(requestId, {
+          messageId,
+          model: body.model,
+          contentLength: fullContent.length,
+          fullContent,
+          doneReason: stopReason,
+          durationMs: Date.now() - streamingStartTime
+        });
+      }
+    },
+    cancel() {
+      console.log('Stream cancelled by client');
+      cancelStream('stream cancelled by client');
+    }
+  });
+
+  return new Response(stream, {
+    headers: createStreamHeaders(requestId)
+  });
+};
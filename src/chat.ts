@@ -1,18 +1,52 @@
 import { validateAuth } from './auth';
-import { createErrorResponse, generateId, generateRequestId } from './errors';
-import { logChatRequest, logChatResponse, logError, logStreamingChunk, logStreamingComplete, logStreamingStart } from './logger';
-import { getModelService, getOllamaClient } from './services/container';
-import { createApiHeaders } from './utils/headers';
+import { createErrorResponse, generateId, generateRequestId, isAbortError } from './errors';
+import { logCancelled, logChatRequest, logChatResponse, logError, logSchemaValidation, logStreamingChunk, logStreamingComplete, logStreamingStart, logToolCallValidation } from './logger';
+import { getModelService, getOllamaClient, getResponseCache } from './services/container';
+import { createApiHeaders, createStreamHeaders } from './utils/headers';
 import type {
+  OllamaChatMessage,
   OllamaChatRequest,
+  OllamaChatResponse,
   OllamaOptions,
+  OllamaToolCall,
   OpenAIChatRequest,
   OpenAIChatResponse,
-  OpenAIStreamChunk
+  OpenAIChoice,
+  OpenAIFinishReason,
+  OpenAIStreamChunk,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIUsage
 } from './types';
-import { convertToOllamaMessages } from './utils';
-import { validateModel, validateParameters, validateRequest } from './validation';
-import { OLLAMA_STREAM } from './config';
+import { appendSystemPrompt, convertContentToString, convertToOllamaMessages, countReasoningTokens } from './utils';
+import { countTokens } from './tokenizer';
+import { validateJsonSchema } from './json-schema';
+import { attachMessageImages, hasImageContent } from './images';
+import { applyContextLimit, countPromptTokens, withContextTrimHeader } from './context';
+import {
+  checkToolCalls,
+  convertFromOllamaToolCalls,
+  convertToOllamaTools,
+  createToolCallDeltas,
+  createToolCallFeedback,
+  createToolChoiceInstruction,
+  getForcedToolName,
+  requiresToolCall,
+  selectTools,
+  type ToolCallCheck
+} from './tools';
+import { mapDoneReason } from './ollama-utils';
+import {
+  applyToolEmulation,
+  createEmulatedToolCallParser,
+  parseEmulatedToolCalls,
+  usesToolEmulation,
+  type EmulatedToolCallParser
+} from './tool-emulation';
+import { createStopSequenceFilter, normalizeStopSequences, truncateAtStopSequence, type StopSequenceFilter } from './stop-sequences';
+import { validateModel, validateParameters, validateRequest, validateToolChoice } from './validation';
+import { JSON_SCHEMA_RETRIES, OLLAMA_STREAM, SSE_HEARTBEAT_MODE, TOOL_CALL_VALIDATION } from './config';
+import { SSE_KEEP_ALIVE_COMMENT, startHeartbeat, type Heartbeat } from './utils/heartbeat';
 
 export const handleChatCompletions = async (req: Request): Promise<Response> => {
   const authValidation = validateAuth(req);
@@ -33,8 +67,13 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
       temperature: body.temperature,
       max_tokens: body.max_tokens,
       top_p: body.top_p,
+      n: body.n,
+      seed: body.seed,
+      options: body.options,
       tools: body.tools,
       response_format: body.response_format,
+      reasoning_effort: body.reasoning_effort,
+      think: body.think,
       user: body.user
     });
 
@@ -57,6 +96,9 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
     const paramValidation = validateParameters(body);
     if (paramValidation) return paramValidation;
 
+    const toolChoiceValidation = validateToolChoice(body);
+    if (toolChoiceValidation) return toolChoiceValidation;
+
     const {
       model,
       messages,
@@ -67,13 +109,33 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
       frequency_penalty,
       presence_penalty,
       stop,
-      response_format
+      response_format,
+      reasoning_effort,
+      think,
+      seed,
+      options: passthroughOptions
     } = body;
 
     // Override streaming based on OLLAMA_STREAM environment variable
     const effectiveStream = stream && OLLAMA_STREAM;
 
     const ollamaMessages = convertToOllamaMessages(messages);
+
+    if (hasImageContent(messages)) {
+      const capabilities = await modelService.getModelCapabilities(model);
+      if (capabilities && !capabilities.includes('vision')) {
+        return createErrorResponse(
+          `The model '${model}' does not support image inputs`,
+          'invalid_request_error',
+          400,
+          'messages',
+          'model_not_vision_capable'
+        );
+      }
+
+      const imageError = await attachMessageImages(messages, ollamaMessages);
+      if (imageError) return imageError;
+    }
     
     const options: OllamaOptions = {};
     if (temperature !== undefined) options.temperature = temperature;
@@ -82,6 +144,10 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
     if (frequency_penalty !== undefined) options.frequency_penalty = frequency_penalty;
     if (presence_penalty !== undefined) options.presence_penalty = presence_penalty;
     if (stop !== undefined) options.stop = Array.isArray(stop) ? stop : [stop];
+    if (seed !== undefined) options.seed = seed;
+
+    const { keep_alive, ...ollamaOptions } = passthroughOptions || {};
+    Object.assign(options, ollamaOptions);
 
     const ollamaRequest: OllamaChatRequest = {
       model,
@@ -93,15 +159,74 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
       ollamaRequest.options = options;
     }
 
+    if (keep_alive !== undefined) {
+      ollamaRequest.keep_alive = keep_alive;
+    }
+
+    await applyRequestTools(ollamaRequest, body);
+
+    // gpt-oss takes an effort level in place of the boolean
+    if (reasoning_effort !== undefined) {
+      ollamaRequest.think = reasoning_effort;
+    } else if (think !== undefined) {
+      ollamaRequest.think = think;
+    }
+
     if (response_format?.type === 'json_object') {
       ollamaRequest.format = 'json';
+    } else if (response_format?.type === 'json_schema' && response_format.json_schema?.schema) {
+      ollamaRequest.format = response_format.json_schema.schema as Record<string, unknown>;
     }
 
-    if (effectiveStream) {
-      return handleStreamingChat(ollamaRequest, model, body, requestId);
-    }
+    const contextTrim = await applyContextLimit(ollamaRequest, requestId);
+    if (contextTrim instanceof Response) return contextTrim;
+
+    const responseCache = getResponseCache();
+    const cacheKey = responseCache.isCacheable(body) ? responseCache.createKey(ollamaRequest, body) : null;
+    const cached = cacheKey ? responseCache.get(cacheKey) : null;
+    const storeInCache = (completion: OpenAIChatResponse) => {
+      if (cacheKey) responseCache.set(cacheKey, completion);
+    };
+
+    const respond = async (): Promise<Response> => {
+      if (cached) {
+        const completion = { ...cached, id: generateId(), created: Math.floor(Date.now() / 1000) };
+        if (effectiveStream) {
+          return handleReplayStreamingChat(completion, requestId, body.stream_options?.include_usage);
+        }
+        logChatResponse(requestId, completion, false, { cache: 'hit' });
+        return new Response(JSON.stringify(completion), { headers: responseHeaders });
+      }
+
+      // Strict schemas and forced tool calls are checked on the completed
+      // output, so the completion is generated in full and then replayed as SSE
+      if (effectiveStream && (isStrictJsonSchema(body) || requiresToolCall(body))) {
+        ollamaRequest.stream = false;
+        return handleHeldStreamingChat(
+          signal => handleNonStreamingChat(ollamaRequest, model, body, requestId, responseHeaders, signal),
+          requestId,
+          body.stream_options?.include_usage,
+          storeInCache,
+          req.signal
+        );
+      }
+
+      if (effectiveStream) {
+        return handleStreamingChat(ollamaRequest, model, body, requestId, req.signal, storeInCache);
+      }
 
-    return handleNonStreamingChat(ollamaRequest, model, body, requestId, responseHeaders);
+      const response = await handleNonStreamingChat(ollamaRequest, model, body, requestId, responseHeaders, req.signal);
+      if (response.ok && cacheKey) {
+        storeInCache(await response.clone().json() as OpenAIChatResponse);
+      }
+      return response;
+    };
+
+    const response = await respond();
+    if (cacheKey) {
+      response.headers.set('x-cache', cached ? 'hit' : 'miss');
+    }
+    return withContextTrimHeader(response, contextTrim);
 
   } catch (error) {
     logError(requestId, error);
@@ -113,19 +238,66 @@ export const handleChatCompletions = async (req: Request): Promise<Response> =>
   }
 };
 
-export const handleNonStreamingChat = async (
-  ollamaRequest: OllamaChatRequest, 
-  model: string, 
-  originalRequest: OpenAIChatRequest, 
-  requestId: string, 
-  responseHeaders: Record<string, string>
-): Promise<Response> => {
-  try {
-    const ollamaClient = getOllamaClient();
+/**
+ * Offer the tools tool_choice allows, natively or described in the prompt for
+ * models without tool support, plus the instruction for a forced call
+ */
+export const applyRequestTools = async (
+  ollamaRequest: OllamaChatRequest,
+  request: Pick<OpenAIChatRequest, 'model' | 'tools' | 'tool_choice'>
+): Promise<void> => {
+  const offeredTools = request.tools?.length ? selectTools(request.tools, request.tool_choice) : [];
+  if (offeredTools.length === 0) return;
+
+  // Ollama rejects tools for models without the capability, they get them described in the prompt
+  const capabilities = await getModelService().getModelCapabilities(request.model);
+  if (capabilities && !capabilities.includes('tools')) {
+    ollamaRequest.messages = applyToolEmulation(ollamaRequest.messages, offeredTools);
+  } else {
+    ollamaRequest.tools = convertToOllamaTools(offeredTools);
+  }
+
+  const toolChoiceInstruction = createToolChoiceInstruction(request.tool_choice);
+  if (toolChoiceInstruction) {
+    ollamaRequest.messages = appendSystemPrompt(ollamaRequest.messages, toolChoiceInstruction);
+  }
+};
+
+export interface GeneratedChoice {
+  choice: OpenAIChoice;
+  usage: OpenAIUsage;
+  doneReason?: string;
+  /** The stop sequence the output was cut at */
+  stopSequence?: string;
+}
+
+/**
+ * Run one upstream generation and map it to an OpenAI choice
+ * Strict json_schema outputs are re-requested until they validate
+ */
+export const generateChoice = async (
+  ollamaRequest: OllamaChatRequest,
+  model: string,
+  originalRequest: OpenAIChatRequest,
+  requestId: string,
+  index: number,
+  signal?: AbortSignal
+): Promise<GeneratedChoice | Response> => {
+  const ollamaClient = getOllamaClient();
+  const strictSchema = isStrictJsonSchema(originalRequest) ? originalRequest.response_format?.json_schema : undefined;
+  const maxAttempts = strictSchema ? JSON_SCHEMA_RETRIES + 1 : 1;
+  const stops = normalizeStopSequences(originalRequest.stop);
+  // Streaming upstream lets the generation be ended at the first stop match
+  const streamUpstream = stops.length > 0 && OLLAMA_STREAM;
+  let ollamaResponse: OllamaChatResponse;
+  let stopSequence: string | undefined;
+
+  for (let attempt = 1; ; attempt++) {
     const response = await ollamaClient.chatCompletion(model, ollamaRequest.messages, {
       stream: false,
-      ...ollamaRequest
-    });
+      ...ollamaRequest,
+      ...(streamUpstream && { stream: true })
+    }, signal);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -133,20 +305,213 @@ export const handleNonStreamingChat = async (
       throw new Error(`Ollama request failed: ${response.status} ${response.statusText}`);
     }
 
-    const ollamaResponse = await response.json();
+    const collected: CollectedChat = streamUpstream
+      ? await collectStreamedChat(response, stops)
+      : { response: await response.json() as OllamaChatResponse };
+    ollamaResponse = collected.response;
+    stopSequence = collected.stopSequence;
+    if (!strictSchema) break;
 
-    let content = ollamaResponse.message?.content || '';
-    
-    if (originalRequest.response_format?.type === 'json_object') {
-      try {
-        JSON.parse(content);
-      } catch {
-        content = JSON.stringify({ response: content });
+    const schemaErrors = validateJsonOutput(ollamaResponse.message?.content || '', strictSchema.schema);
+    if (schemaErrors.length === 0) break;
+
+    logSchemaValidation(requestId, { model, schema: strictSchema.name, attempt, maxAttempts, errors: schemaErrors });
+    if (attempt >= maxAttempts) {
+      logError(requestId, new Error(`Output did not match json_schema '${strictSchema.name}': ${schemaErrors.join('; ')}`));
+      return createErrorResponse(
+        `The model output did not match the json_schema '${strictSchema.name}' after ${maxAttempts} attempts: ${schemaErrors.slice(0, 5).join('; ')}`,
+        'api_error',
+        500,
+        'response_format',
+        'json_schema_validation_failed'
+      );
+    }
+  }
+
+  const truncated = truncateAtStopSequence(ollamaResponse.message?.content || '', stops);
+  let content = truncated.text;
+  const generatedContent = content;
+  const doneReason = truncated.stopped ? 'stop' : ollamaResponse.done_reason;
+  stopSequence ??= truncated.sequence;
+  const reasoning = ollamaResponse.message?.thinking || '';
+  let ollamaToolCalls = ollamaResponse.message?.tool_calls;
+
+  if (usesToolEmulation(ollamaRequest, originalRequest)) {
+    const emulated = parseEmulatedToolCalls(content);
+    content = emulated.content;
+    ollamaToolCalls = emulated.toolCalls;
+  }
+
+  if (ollamaToolCalls?.length && originalRequest.tools?.length && TOOL_CALL_VALIDATION) {
+    const check = logToolCallCheck(requestId, model, 1, checkToolCalls(ollamaToolCalls, originalRequest.tools));
+    let retried: ToolCallCheck | null = null;
+    if (check.errors.length > 0) {
+      retried = await retryInvalidToolCalls(check, ollamaRequest, model, originalRequest.tools, requestId, content, signal);
+      if (retried.errors.length > 0) {
+        return createErrorResponse(describeToolCallFailure(retried.errors), 'api_error', 500, 'tools', 'tool_call_validation_failed');
       }
     }
+    ollamaToolCalls = [...check.valid, ...(retried?.valid || [])];
+  }
 
-    if (!content && !originalRequest.tools) {
-      content = 'Response received from model.';
+  if (requiresToolCall(originalRequest)) {
+    const forced = getForcedToolName(originalRequest.tool_choice);
+    const matchesChoice = (call: OllamaToolCall) => !forced || call.function.name === forced;
+    ollamaToolCalls = (ollamaToolCalls || []).filter(matchesChoice);
+
+    if (ollamaToolCalls.length === 0) {
+      const required = forced ? `a call to ${forced}` : 'a tool call';
+      const missing = logToolCallCheck(requestId, model, 1, {
+        valid: [],
+        invalid: [],
+        errors: [`no tool was called, but tool_choice requires ${required}`],
+        repairs: []
+      });
+      const retried = await retryInvalidToolCalls(missing, ollamaRequest, model, originalRequest.tools!, requestId, content, signal);
+      ollamaToolCalls = retried.valid.filter(matchesChoice);
+      if (ollamaToolCalls.length === 0) {
+        return createErrorResponse(
+          `The model did not make ${required} as required by tool_choice, also after being asked again`,
+          'api_error',
+          500,
+          'tool_choice',
+          'tool_choice_not_satisfied'
+        );
+      }
+    }
+  }
+
+  if (originalRequest.parallel_tool_calls === false && ollamaToolCalls && ollamaToolCalls.length > 1) {
+    ollamaToolCalls = ollamaToolCalls.slice(0, 1);
+  }
+
+  const toolCalls = ollamaToolCalls?.length
+    ? convertFromOllamaToolCalls(ollamaToolCalls)
+    : undefined;
+
+  return {
+    choice: {
+      index,
+      message: {
+        role: 'assistant',
+        content: toolCalls ? content || null : content,
+        ...(reasoning && { reasoning_content: reasoning }),
+        ...(toolCalls && { tool_calls: toolCalls })
+      },
+      finish_reason: mapDoneReason(doneReason, !!toolCalls)
+    },
+    usage: buildUsage(ollamaResponse, ollamaRequest, { content: generatedContent, reasoning, toolCalls: toolCalls || [] }),
+    doneReason,
+    ...(stopSequence !== undefined && { stopSequence })
+  };
+};
+
+interface CollectedChat {
+  response: OllamaChatResponse;
+  stopSequence?: string;
+}
+
+/**
+ * Read a streamed upstream generation into a single response
+ * The generation is cancelled as soon as a stop sequence shows up; Ollama's
+ * token counts never arrive then and buildUsage counts them locally
+ */
+const collectStreamedChat = async (response: Response, stops: string[]): Promise<CollectedChat> => {
+  const filter = createStopSequenceFilter(stops);
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body from Ollama');
+  }
+
+  const message: OllamaChatMessage = { role: 'assistant', content: '' };
+  let collected: OllamaChatResponse | null = null;
+  let stopped = false;
+  let stopSequence: string | undefined;
+
+  const processLine = (line: string) => {
+    if (!line.trim() || stopped || collected) return;
+    let data: OllamaChatResponse;
+    try {
+      data = JSON.parse(line);
+    } catch (parseError) {
+      console.error('JSON parse error:', parseError, 'Line:', line);
+      return;
+    }
+    if (data.message?.thinking) message.thinking = (message.thinking || '') + data.message.thinking;
+    if (data.message?.tool_calls?.length) message.tool_calls = [...(message.tool_calls || []), ...data.message.tool_calls];
+    if (data.message?.content) {
+      const result = filter.push(data.message.content);
+      message.content += result.text;
+      stopped = result.stopped;
+      stopSequence = result.sequence;
+    }
+    if (data.done && !stopped) {
+      message.content += filter.flush();
+      collected = { ...data, message };
+    }
+  };
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (!stopped && !collected) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(processLine);
+    }
+    processLine(buffer);
+  } finally {
+    if (stopped) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+
+  if (collected) return { response: collected };
+
+  if (!stopped) {
+    message.content += filter.flush();
+  }
+  return {
+    response: {
+      model: '',
+      message,
+      done: true,
+      done_reason: 'stop'
+    },
+    stopSequence
+  };
+};
+
+export const handleNonStreamingChat = async (
+  ollamaRequest: OllamaChatRequest, 
+  model: string, 
+  originalRequest: OpenAIChatRequest, 
+  requestId: string, 
+  responseHeaders: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  try {
+    // n > 1 fans out into parallel upstream generations
+    const choiceCount = originalRequest.n ?? 1;
+    const results = await Promise.all(
+      Array.from({ length: choiceCount }, (_, index) =>
+        generateChoice(withChoiceSeed(ollamaRequest, index), model, originalRequest, requestId, index, signal)
+      )
+    );
+
+    const failed = results.find((result): result is Response => result instanceof Response);
+    if (failed) return failed;
+    const generated = results as GeneratedChoice[];
+
+    for (const { choice } of generated) {
+      if (!choice.message.content && !originalRequest.tools && !choice.message.tool_calls) {
+        choice.message.content = 'Response received from model.';
+      }
     }
 
     const openaiResponse: OpenAIChatResponse = {
@@ -155,27 +520,22 @@ export const handleNonStreamingChat = async (
       created: Math.floor(Date.now() / 1000),
       model,
       system_fingerprint: 'fp_ollama_proxy',
-      choices: [{
-        index: 0,
-        message: {
-          role: 'assistant',
-          content
-        },
-        finish_reason: 'stop'
-      }],
-      usage: {
-        prompt_tokens: ollamaResponse.prompt_eval_count || 0,
-        completion_tokens: ollamaResponse.eval_count || 0,
-        total_tokens: (ollamaResponse.prompt_eval_count || 0) + (ollamaResponse.eval_count || 0)
-      }
+      choices: generated.map(result => result.choice),
+      usage: sumUsage(generated.map(result => result.usage))
     };
 
-    logChatResponse(requestId, openaiResponse, false);
+    logChatResponse(requestId, openaiResponse, false, {
+      doneReason: choiceCount === 1 ? generated[0].doneReason : generated.map(result => result.doneReason)
+    });
 
     return new Response(JSON.stringify(openaiResponse), {
       headers: responseHeaders
     });
   } catch (error) {
+    if (isAbortError(error)) {
+      logCancelled(requestId, { model, stream: false, reason: 'client disconnected' });
+      return createErrorResponse('Client closed request', 'invalid_request_error', 499);
+    }
     logError(requestId, error);
     return createErrorResponse(
       (error as Error).message || 'Internal server error',
@@ -185,17 +545,89 @@ export const handleNonStreamingChat = async (
   }
 };
 
+interface StreamingChoiceState {
+  index: number;
+  content: string;
+  reasoning: string;
+  toolCalls: OpenAIToolCall[];
+  roleSent: boolean;
+  hasContentBeenSent: boolean;
+  hasFinished: boolean;
+  finishReason: OpenAIFinishReason;
+  doneReason?: string;
+  usage?: OpenAIUsage;
+  fallback?: boolean;
+  stopFilter: StopSequenceFilter;
+  stoppedBySequence?: boolean;
+  failed?: boolean;
+  rejectedToolCalls?: ToolCallCheck;
+  toolCallParser?: EmulatedToolCallParser;
+  // Upstream done chunk held back until rejected tool calls were re-asked
+  pendingDone?: OllamaChatResponse;
+}
+
 export const handleStreamingChat = async (
   ollamaRequest: OllamaChatRequest, 
   model: string, 
   originalRequest: OpenAIChatRequest, 
-  requestId: string
+  requestId: string,
+  signal?: AbortSignal,
+  onComplete?: (completion: OpenAIChatResponse) => void
 ): Promise<Response> => {
   const completionId = generateId();
   const timestamp = Math.floor(Date.now() / 1000);
   let chunkCounter = 0;
-  let streamingContent = '';
   let streamingStartTime = Date.now();
+  const choiceStates: StreamingChoiceState[] = Array.from({ length: originalRequest.n ?? 1 }, (_, index) => ({
+    index,
+    content: '',
+    reasoning: '',
+    toolCalls: [],
+    roleSent: false,
+    hasContentBeenSent: false,
+    hasFinished: false,
+    finishReason: 'stop',
+    stopFilter: createStopSequenceFilter(normalizeStopSequences(originalRequest.stop)),
+    ...(usesToolEmulation(ollamaRequest, originalRequest) && { toolCallParser: createEmulatedToolCallParser() })
+  }));
+  
+  // Aborting cancels every upstream generation, either because the
+  // client disconnected or because the stream was cancelled
+  const upstreamAbort = new AbortController();
+  let cancelled = false;
+  let heartbeat: Heartbeat | null = null;
+  const validateToolCalls = TOOL_CALL_VALIDATION && !!originalRequest.tools?.length;
+  signal?.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
+  const summarizeChoice = (state: StreamingChoiceState) => ({
+    contentLength: state.content.length,
+    fullContent: state.content,
+    ...(state.reasoning && { reasoningContent: state.reasoning }),
+    ...(state.toolCalls.length > 0 && { toolCalls: state.toolCalls }),
+    finishReason: state.finishReason,
+    doneReason: state.doneReason,
+    ...(state.stoppedBySequence && { stoppedBySequence: true }),
+    ...(state.rejectedToolCalls && { rejectedToolCalls: state.rejectedToolCalls.errors }),
+    ...(state.fallback && { fallback: true })
+  });
+
+  const createSummary = () => ({
+    completionId,
+    model,
+    totalChunks: chunkCounter,
+    ...(choiceStates.length === 1
+      ? summarizeChoice(choiceStates[0])
+      : { choices: choiceStates.map(summarizeChoice) }),
+    durationMs: Date.now() - streamingStartTime
+  });
+
+  const cancelStream = (reason: string) => {
+    if (cancelled) return;
+    cancelled = true;
+    heartbeat?.stop();
+    upstreamAbort.abort();
+    logCancelled(requestId, { ...createSummary(), reason });
+  };
   
   logStreamingStart(requestId, model);
   
@@ -203,7 +635,27 @@ export const handleStreamingChat = async (
     async start(controller) {
       const encoder = new TextEncoder();
       let controllerClosed = false;
-      let ollamaReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+      // Heartbeats bypass writeChunk so they are neither logged nor counted
+      heartbeat = startHeartbeat(() => {
+        if (controllerClosed) return;
+        const pending = choiceStates.find(state => !state.hasFinished) ?? choiceStates[0];
+        const payload = SSE_HEARTBEAT_MODE === 'empty_delta'
+          ? `data: ${JSON.stringify({
+              id: completionId,
+              object: 'chat.completion.chunk',
+              created: timestamp,
+              model,
+              system_fingerprint: 'fp_ollama_proxy',
+              choices: [{ index: pending.index, delta: {}, finish_reason: null }]
+            })}\n\n`
+          : SSE_KEEP_ALIVE_COMMENT;
+        try {
+          controller.enqueue(encoder.encode(payload));
+        } catch (error) {
+          controllerClosed = true;
+        }
+      });
       
       const writeChunk = (data: OpenAIStreamChunk) => {
         try {
@@ -212,316 +664,615 @@ export const handleStreamingChat = async (
           }
           
           // Track content for final summary
-          if (data.choices?.[0]?.delta?.content) {
-            streamingContent += data.choices[0].delta.content;
+          for (const choice of data.choices || []) {
+            const state = choiceStates[choice.index];
+            if (choice.delta.content) state.content += choice.delta.content;
+            if (choice.delta.reasoning_content) state.reasoning += choice.delta.reasoning_content;
           }
           
           logStreamingChunk(requestId, data, chunkCounter++);
           const chunk = `data: ${JSON.stringify(data)}\n\n`;
           controller.enqueue(encoder.encode(chunk));
+          heartbeat?.touch();
         } catch (error) {
           controllerClosed = true;
           console.warn('Controller closed, stopping writes');
         }
       };
+
+      const writeDelta = (
+        state: StreamingChoiceState,
+        delta: OpenAIStreamChunk['choices'][number]['delta'],
+        finishReason: OpenAIFinishReason | null = null
+      ) => {
+        writeChunk({
+          id: completionId,
+          object: 'chat.completion.chunk',
+          created: timestamp,
+          model,
+          system_fingerprint: 'fp_ollama_proxy',
+          choices: [{
+            index: state.index,
+            delta,
+            finish_reason: finishReason
+          }]
+        });
+      };
+
+      const sendRole = (state: StreamingChoiceState) => {
+        if (state.roleSent) return;
+        writeDelta(state, { role: 'assistant' });
+        state.roleSent = true;
+      };
+
+      const finishChoice = (state: StreamingChoiceState, finishReason: OpenAIFinishReason) => {
+        state.finishReason = finishReason;
+        writeDelta(state, {}, finishReason);
+        state.hasFinished = true;
+      };
       
       const safeClose = () => {
+        heartbeat?.stop();
         try {
           if (!controllerClosed) {
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             controller.close();
             controllerClosed = true;
-            
-            const streamingSummary = {
-              completionId,
-              model,
-              totalChunks: chunkCounter,
-              contentLength: streamingContent.length,
-              fullContent: streamingContent,
-              durationMs: Date.now() - streamingStartTime,
-              finishReason: 'stop'
-            };
-            
-            logStreamingComplete(requestId, streamingSummary);
+            logStreamingComplete(requestId, createSummary());
           }
         } catch (error) {
           controllerClosed = true;
         }
       };
       
-      const writeError = (message: string) => {
-        if (controllerClosed) return;
+      const writeError = (state: StreamingChoiceState, message: string) => {
+        if (controllerClosed || state.hasFinished) return;
         
-        const assistantRoleChunk: OpenAIStreamChunk = {
-          id: completionId,
-          object: 'chat.completion.chunk',
-          created: timestamp,
-          model,
-          system_fingerprint: 'fp_ollama_proxy',
-          choices: [{
-            index: 0,
-            delta: { role: 'assistant' },
-            finish_reason: null
-          }]
-        };
-        writeChunk(assistantRoleChunk);
-        
-        const errorContentChunk: OpenAIStreamChunk = {
-          id: completionId,
-          object: 'chat.completion.chunk',
-          created: timestamp,
-          model,
-          system_fingerprint: 'fp_ollama_proxy',
-          choices: [{
-            index: 0,
-            delta: { content: `Error: ${message}` },
-            finish_reason: null
-          }]
-        };
-        writeChunk(errorContentChunk);
+        sendRole(state);
+        state.failed = true;
+        writeDelta(state, { content: `Error: ${message}` });
+        finishChoice(state, 'stop');
+      };
+
+      const ensureMinimalResponse = (state: StreamingChoiceState) => {
+        if (controllerClosed || state.hasFinished) return;
+
+        console.log('Using backup minimal response for RooCode/KiloCode compatibility');
         
-        const finalChunk: OpenAIStreamChunk = {
-          id: completionId,
-          object: 'chat.completion.chunk',
-          created: timestamp,
-          model,
-          system_fingerprint: 'fp_ollama_proxy',
-          choices: [{
-            index: 0,
-            delta: {},
-            finish_reason: 'stop'
-          }]
-        };
-        writeChunk(finalChunk);
+        if (!state.hasContentBeenSent) {
+          writeDelta(state, { content: 'Response received from model.' });
+          state.hasContentBeenSent = true;
+        }
         
-        safeClose();
+        state.fallback = true;
+        finishChoice(state, 'stop');
       };
 
-      try {
-        const ollamaClient = getOllamaClient();
-        const response = await ollamaClient.chatCompletion(model, ollamaRequest.messages, {
-          stream: true,
-          ...ollamaRequest
-        });
+      const writeContent = (state: StreamingChoiceState, content: string) => {
+        if (!content) return;
+        writeDelta(state, { content });
+        state.hasContentBeenSent = true;
+      };
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Ollama error ${response.status}:`, errorText);
-          writeError(`Ollama request failed: ${response.status}`);
-          return;
+      const processOllamaData = (state: StreamingChoiceState, ollamaData: OllamaChatResponse) => {
+        if (controllerClosed) return;
+
+        if (ollamaData.message?.thinking) {
+          writeDelta(state, { reasoning_content: ollamaData.message.thinking });
         }
 
-        ollamaReader = response.body?.getReader() || null;
-        if (!ollamaReader) {
-          writeError('No response body from Ollama');
-          return;
+        let content = ollamaData.message?.content || '';
+        let toolCalls = ollamaData.message?.tool_calls || [];
+
+        // Emulated tool calls are cut out of the content once their block is complete
+        if (state.toolCallParser) {
+          const parsed = state.toolCallParser.push(content);
+          const flushed = ollamaData.done ? state.toolCallParser.flush() : { text: '', toolCalls: [] };
+          content = parsed.text + flushed.text;
+          toolCalls = [...toolCalls, ...parsed.toolCalls, ...flushed.toolCalls];
         }
 
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let hasFinished = false;
-        let hasContentBeenSent = false;
+        if (content) {
+          // The tail that could start a stop sequence is held back until the next chunk
+          const { text, stopped } = state.stopFilter.push(content);
+          writeContent(state, text);
+          if (stopped) {
+            state.stoppedBySequence = true;
+            state.usage = buildUsage({ model, done: true }, ollamaRequest, state);
+            finishChoice(state, 'stop');
+            return;
+          }
+        }
 
-        const ensureMinimalResponse = () => {
-          try {
-            if (!controllerClosed && !hasFinished) {
-              console.log('Using backup minimal response for RooCode/KiloCode compatibility');
-              
-              if (!hasContentBeenSent && !controllerClosed) {
-                const backupContentChunk: OpenAIStreamChunk = {
-                  id: completionId,
-                  object: 'chat.completion.chunk',
-                  created: timestamp,
-                  model,
-                  system_fingerprint: 'fp_ollama_proxy',
-                  choices: [{
-                    index: 0,
-                    delta: { content: 'Response received from model.' },
-                    finish_reason: null
-                  }]
-                };
-                writeChunk(backupContentChunk);
-                hasContentBeenSent = true;
-              }
-              
-              if (!controllerClosed) {
-                const backupFinalChunk: OpenAIStreamChunk = {
-                  id: completionId,
-                  object: 'chat.completion.chunk',
-                  created: timestamp,
-                  model,
-                  system_fingerprint: 'fp_ollama_proxy',
-                  choices: [{
-                    index: 0,
-                    delta: {},
-                    finish_reason: 'stop'
-                  }]
-                };
-                writeChunk(backupFinalChunk);
-                hasFinished = true;
-                
-                const streamingSummary = {
-                  completionId,
-                  model,
-                  totalChunks: chunkCounter,
-                  contentLength: streamingContent.length,
-                  fullContent: streamingContent || 'Response received from model.',
-                  durationMs: Date.now() - streamingStartTime,
-                  finishReason: 'stop',
-                  fallback: true
-                };
-                
-                logStreamingComplete(requestId, streamingSummary);
-                safeClose();
-              }
+        if (toolCalls.length > 0) {
+          if (validateToolCalls) {
+            // Valid calls go out right away, rejected ones are re-asked once the generation is done
+            const check = logToolCallCheck(requestId, model, 1, checkToolCalls(toolCalls, originalRequest.tools!));
+            if (check.errors.length > 0) {
+              const rejected = state.rejectedToolCalls ??= { valid: [], invalid: [], errors: [], repairs: [] };
+              rejected.invalid.push(...check.invalid);
+              rejected.errors.push(...check.errors);
             }
-          } catch (error) {
-            controllerClosed = true;
+            toolCalls = check.valid;
           }
-        };
+          writeToolCalls(state, toolCalls);
+        }
 
-        const assistantRoleChunk: OpenAIStreamChunk = {
-          id: completionId,
-          object: 'chat.completion.chunk',
-          created: timestamp,
+        if (ollamaData.done) {
+          if (state.rejectedToolCalls) {
+            state.pendingDone = ollamaData;
+            return;
+          }
+          completeChoice(state, ollamaData);
+        }
+      };
+
+      const writeToolCalls = (state: StreamingChoiceState, toolCalls: OllamaToolCall[]) => {
+        // Without parallel tool calls only the first call is passed on
+        const allowed = originalRequest.parallel_tool_calls === false
+          ? toolCalls.slice(0, Math.max(0, 1 - state.toolCalls.length))
+          : toolCalls;
+        for (const toolCall of convertFromOllamaToolCalls(allowed)) {
+          for (const delta of createToolCallDeltas(toolCall, state.toolCalls.length)) {
+            writeDelta(state, { tool_calls: [delta] });
+          }
+          state.toolCalls.push(toolCall);
+          state.hasContentBeenSent = true;
+        }
+      };
+
+      const completeChoice = (state: StreamingChoiceState, ollamaData: OllamaChatResponse) => {
+        writeContent(state, state.stopFilter.flush());
+        state.doneReason = ollamaData.done_reason;
+        state.usage = buildUsage(ollamaData, ollamaRequest, state);
+        finishChoice(state, mapDoneReason(state.doneReason, state.toolCalls.length > 0));
+      };
+
+      const retryRejectedToolCalls = async (state: StreamingChoiceState, done: OllamaChatResponse) => {
+        const retried = await retryInvalidToolCalls(
+          state.rejectedToolCalls!,
+          withChoiceSeed(ollamaRequest, state.index),
           model,
-          system_fingerprint: 'fp_ollama_proxy',
-          choices: [{
-            index: 0,
-            delta: { role: 'assistant' },
-            finish_reason: null
-          }]
-        };
-        writeChunk(assistantRoleChunk);
+          originalRequest.tools!,
+          requestId,
+          state.content,
+          upstreamAbort.signal
+        );
+        if (retried.errors.length > 0) {
+          writeError(state, describeToolCallFailure(retried.errors));
+          return;
+        }
+        writeToolCalls(state, retried.valid);
+        completeChoice(state, done);
+      };
+
+      const streamChoice = async (state: StreamingChoiceState) => {
+        let ollamaReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
 
         try {
-          while (!hasFinished && !controllerClosed) {
-            const { done, value } = await ollamaReader.read();
-            
-            if (done || controllerClosed) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-              if (line.trim() && !hasFinished && !controllerClosed) {
-                try {
-                  const ollamaData = JSON.parse(line);
-
-                  if (ollamaData.message?.content && !controllerClosed) {
-                    const contentChunk: OpenAIStreamChunk = {
-                      id: completionId,
-                      object: 'chat.completion.chunk',
-                      created: timestamp,
-                      model,
-                      system_fingerprint: 'fp_ollama_proxy',
-                      choices: [{
-                        index: 0,
-                        delta: { content: ollamaData.message.content },
-                        finish_reason: null
-                      }]
-                    };
-                    writeChunk(contentChunk);
-                    hasContentBeenSent = true;
-                  }
+          const ollamaClient = getOllamaClient();
+          const response = await ollamaClient.chatCompletion(model, ollamaRequest.messages, {
+            stream: true,
+            ...withChoiceSeed(ollamaRequest, state.index)
+          }, upstreamAbort.signal);
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`Ollama error ${response.status}:`, errorText);
+            writeError(state, `Ollama request failed: ${response.status}`);
+            return;
+          }
+
+          ollamaReader = response.body?.getReader() || null;
+          if (!ollamaReader) {
+            writeError(state, 'No response body from Ollama');
+            return;
+          }
 
-                  if (ollamaData.done && !controllerClosed) {
-                    const finalChunk: OpenAIStreamChunk = {
-                      id: completionId,
-                      object: 'chat.completion.chunk',
-                      created: timestamp,
-                      model,
-                      system_fingerprint: 'fp_ollama_proxy',
-                      choices: [{
-                        index: 0,
-                        delta: {},
-                        finish_reason: 'stop'
-                      }]
-                    };
-                    writeChunk(finalChunk);
-                    hasFinished = true;
-                    safeClose();
-                    return;
+          sendRole(state);
+
+          const decoder = new TextDecoder();
+          let buffer = '';
+
+          try {
+            while (!state.hasFinished && !controllerClosed) {
+              const { done, value } = await ollamaReader.read();
+              
+              if (done || controllerClosed) break;
+
+              buffer += decoder.decode(value, { stream: true });
+              const lines = buffer.split('\n');
+              buffer = lines.pop() || '';
+
+              for (const line of lines) {
+                if (line.trim() && !state.hasFinished && !controllerClosed) {
+                  try {
+                    processOllamaData(state, JSON.parse(line));
+                  } catch (parseError) {
+                    console.error('JSON parse error:', parseError, 'Line:', line);
                   }
-                } catch (parseError) {
-                  console.error('JSON parse error:', parseError, 'Line:', line);
                 }
+                
+                if (state.hasFinished || controllerClosed) break;
               }
-              
-              if (controllerClosed) break;
             }
-          }
 
-          if (buffer.trim() && !hasFinished && !controllerClosed) {
-            try {
-              const ollamaData = JSON.parse(buffer.trim());
-              
-              if (ollamaData.message?.content && !controllerClosed) {
-                const contentChunk: OpenAIStreamChunk = {
-                  id: completionId,
-                  object: 'chat.completion.chunk',
-                  created: timestamp,
-                  model,
-                  system_fingerprint: 'fp_ollama_proxy',
-                  choices: [{
-                    index: 0,
-                    delta: { content: ollamaData.message.content },
-                    finish_reason: null
-                  }]
-                };
-                writeChunk(contentChunk);
-                hasContentBeenSent = true;
+            if (buffer.trim() && !state.hasFinished && !controllerClosed) {
+              try {
+                processOllamaData(state, JSON.parse(buffer.trim()));
+              } catch (parseError) {
+                console.error('Final buffer parse error:', parseError);
               }
-              
-              if (ollamaData.done) {
-                hasFinished = true;
-              }
-            } catch (parseError) {
-              console.error('Final buffer parse error:', parseError);
             }
-          }
 
-          if (!hasFinished && !controllerClosed) {
-            ensureMinimalResponse();
-          } else if (!controllerClosed) {
-            safeClose();
-          }
-          
-        } finally {
-          if (ollamaReader) {
+            if (state.pendingDone && !state.hasFinished && !controllerClosed) {
+              await retryRejectedToolCalls(state, state.pendingDone);
+            }
+
+            if (!state.hasFinished) {
+              const held = state.toolCallParser?.flush().text || '';
+              writeContent(state, state.stopFilter.push(held).text + state.stopFilter.flush());
+            }
+            ensureMinimalResponse(state);
+          } finally {
+            // End the upstream generation once a stop sequence matched
+            if (state.stoppedBySequence) {
+              await ollamaReader.cancel().catch(() => {});
+            }
             try {
               ollamaReader.releaseLock();
             } catch (e) {
               // Reader may already be released
             }
           }
+        } catch (error) {
+          if (isAbortError(error) || cancelled) return;
+          logError(requestId, error);
+          writeError(state, (error as Error).message || 'Internal streaming error');
         }
-      } catch (error) {
-        logError(requestId, error);
-        if (!controllerClosed) {
-          writeError((error as Error).message || 'Internal streaming error');
+      };
+
+      // Choices stream concurrently, their chunks interleave by choices[].index
+      await Promise.all(choiceStates.map(streamChoice));
+
+      if (cancelled || upstreamAbort.signal.aborted) {
+        cancelStream('client disconnected');
+        controllerClosed = true;
+        try {
+          controller.close();
+        } catch (error) {
+          // Stream may already be cancelled
         }
+        return;
+      }
+
+      // Only clean generations are handed over, errors and fallbacks are not reusable
+      if (onComplete && choiceStates.every(state => !state.failed && !state.fallback)) {
+        onComplete({
+          id: completionId,
+          object: 'chat.completion',
+          created: timestamp,
+          model,
+          system_fingerprint: 'fp_ollama_proxy',
+          choices: choiceStates.map(state => ({
+            index: state.index,
+            message: {
+              role: 'assistant',
+              content: state.toolCalls.length > 0 ? state.content || null : state.content,
+              ...(state.reasoning && { reasoning_content: state.reasoning }),
+              ...(state.toolCalls.length > 0 && { tool_calls: state.toolCalls })
+            },
+            finish_reason: state.finishReason
+          })),
+          usage: sumUsage(choiceStates.map(state => state.usage))
+        });
+      }
+
+      if (originalRequest.stream_options?.include_usage) {
+        const usageChunk: OpenAIStreamChunk = {
+          id: completionId,
+          object: 'chat.completion.chunk',
+          created: timestamp,
+          model,
+          system_fingerprint: 'fp_ollama_proxy',
+          choices: [],
+          usage: sumUsage(choiceStates.map(state => state.usage))
+        };
+        writeChunk(usageChunk);
       }
+
+      safeClose();
     },
     cancel() {
       console.log('Stream cancelled by client');
+      cancelStream('stream cancelled by client');
     }
   });
 
   return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Organization',
-      'X-Accel-Buffering': 'no',
-      'x-request-id': requestId,
-      'x-ratelimit-limit-requests': '10000',
-      'x-ratelimit-remaining-requests': '9999',
-      'x-ratelimit-reset-requests': new Date(Date.now() + 60000).toISOString(),
+    headers: createStreamHeaders(requestId),
+  });
+};
+
+/**
+ * Usage from Ollama's eval counts, counted with the local tokenizer
+ * whenever Ollama leaves them out
+ */
+export const buildUsage = (
+  ollamaResponse: OllamaChatResponse,
+  ollamaRequest: OllamaChatRequest,
+  output: { content: string; reasoning: string; toolCalls: OpenAIToolCall[] }
+): OpenAIUsage => {
+  const promptTokens = ollamaResponse.prompt_eval_count ||
+    countPromptTokens(ollamaRequest.messages, ollamaRequest.tools);
+  const completionTokens = ollamaResponse.eval_count ||
+    countTokens(output.reasoning + output.content + output.toolCalls.map(call => call.function.name + call.function.arguments).join(''));
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(output.reasoning && {
+      completion_tokens_details: {
+        reasoning_tokens: countReasoningTokens(output.reasoning, completionTokens)
+      }
+    })
+  };
+};
+
+const sumUsage = (usages: Array<OpenAIUsage | undefined>): OpenAIUsage => {
+  const total: OpenAIUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  for (const usage of usages) {
+    if (!usage) continue;
+    total.prompt_tokens += usage.prompt_tokens;
+    total.completion_tokens += usage.completion_tokens;
+    total.total_tokens += usage.total_tokens;
+    if (usage.completion_tokens_details) {
+      total.completion_tokens_details = {
+        reasoning_tokens: (total.completion_tokens_details?.reasoning_tokens || 0) + usage.completion_tokens_details.reasoning_tokens
+      };
+    }
+  }
+  return total;
+};
+
+/**
+ * Give each fanned-out choice its own seed so n > 1 stays reproducible
+ * without every choice returning the same text
+ */
+const withChoiceSeed = (ollamaRequest: OllamaChatRequest, index: number): OllamaChatRequest => {
+  if (index === 0 || ollamaRequest.options?.seed === undefined) return ollamaRequest;
+  return {
+    ...ollamaRequest,
+    options: { ...ollamaRequest.options, seed: ollamaRequest.options.seed + index }
+  };
+};
+
+export const isStrictJsonSchema = (request: OpenAIChatRequest): boolean =>
+  request.response_format?.type === 'json_schema' && request.response_format.json_schema?.strict === true;
+
+export const describeToolCallFailure = (errors: string[]): string =>
+  `The model produced invalid tool calls, also after being asked to correct them: ${errors.slice(0, 5).join('; ')}`;
+
+/**
+ * Write a tool call check to the chat log, so repairs and rejections can be tracked per model
+ */
+export const logToolCallCheck = (requestId: string, model: string, attempt: number, check: ToolCallCheck): ToolCallCheck => {
+  const decision = check.errors.length > 0
+    ? (attempt === 1 ? 'retry' : 'rejected')
+    : check.repairs.length > 0 ? 'repaired' : 'accepted';
+  logToolCallValidation(requestId, {
+    model,
+    attempt,
+    decision,
+    toolCalls: [...check.valid, ...check.invalid].map(call => call.function.name),
+    ...(check.repairs.length > 0 && { repairs: check.repairs }),
+    ...(check.errors.length > 0 && { errors: check.errors })
+  });
+  return check;
+};
+
+/**
+ * Ask the model once more for the tool calls that failed their check,
+ * with the validation errors as feedback
+ */
+export const retryInvalidToolCalls = async (
+  rejected: ToolCallCheck,
+  ollamaRequest: OllamaChatRequest,
+  model: string,
+  tools: OpenAITool[],
+  requestId: string,
+  assistantContent: string,
+  signal?: AbortSignal
+): Promise<ToolCallCheck> => {
+  const messages: OllamaChatMessage[] = [
+    ...ollamaRequest.messages,
+    ...(assistantContent ? [{ role: 'assistant' as const, content: assistantContent }] : []),
+    { role: 'user', content: createToolCallFeedback(rejected) }
+  ];
+
+  const response = await getOllamaClient().chatCompletion(model, messages, {
+    ...ollamaRequest,
+    messages,
+    stream: false
+  }, signal);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`Ollama error ${response.status}:`, errorText);
+    throw new Error(`Ollama request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const retried = await response.json() as OllamaChatResponse;
+  const retriedCalls = ollamaRequest.tools
+    ? retried.message?.tool_calls || []
+    : parseEmulatedToolCalls(retried.message?.content || '').toolCalls;
+  const check = retriedCalls.length > 0
+    ? checkToolCalls(retriedCalls, tools)
+    : { valid: [], invalid: [], errors: ['the model did not call a tool again'], repairs: [] };
+  return logToolCallCheck(requestId, model, 2, check);
+};
+
+const validateJsonOutput = (content: string, schema: unknown): string[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return [`output is not valid JSON: ${(error as Error).message}`];
+  }
+  return validateJsonSchema(parsed, schema);
+};
+
+/**
+ * SSE body replaying a completed chat completion, ending with [DONE]
+ */
+const encodeReplayStream = (
+  completion: OpenAIChatResponse,
+  requestId: string,
+  includeUsage: boolean
+): string => {
+  const baseChunk = {
+    id: completion.id,
+    object: 'chat.completion.chunk' as const,
+    created: completion.created,
+    model: completion.model,
+    system_fingerprint: completion.system_fingerprint
+  };
+
+  const chunks: OpenAIStreamChunk[] = [];
+  for (const choice of completion.choices) {
+    const index = choice.index;
+    chunks.push({
+      ...baseChunk,
+      choices: [{ index, delta: { role: 'assistant' }, finish_reason: null }]
+    });
+
+    if (choice.message.reasoning_content) {
+      chunks.push({
+        ...baseChunk,
+        choices: [{ index, delta: { reasoning_content: choice.message.reasoning_content }, finish_reason: null }]
+      });
+    }
+
+    const content = convertContentToString(choice.message.content);
+    if (content) {
+      chunks.push({
+        ...baseChunk,
+        choices: [{ index, delta: { content }, finish_reason: null }]
+      });
+    }
+
+    (choice.message.tool_calls || []).forEach((toolCall, toolIndex) => {
+      for (const delta of createToolCallDeltas(toolCall, toolIndex)) {
+        chunks.push({
+          ...baseChunk,
+          choices: [{ index, delta: { tool_calls: [delta] }, finish_reason: null }]
+        });
+      }
+    });
+
+    chunks.push({
+      ...baseChunk,
+      choices: [{ index, delta: {}, finish_reason: choice.finish_reason }]
+    });
+  }
+
+  if (includeUsage) {
+    chunks.push({ ...baseChunk, choices: [], usage: completion.usage });
+  }
+
+  const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  const fullContent = convertContentToString(completion.choices[0]?.message.content);
+  logStreamingComplete(requestId, {
+    completionId: completion.id,
+    model: completion.model,
+    totalChunks: chunks.length,
+    contentLength: fullContent.length,
+    fullContent,
+    finishReason: completion.choices[0]?.finish_reason,
+    replayed: true
+  });
+
+  return body;
+};
+
+/**
+ * Replay a completed chat completion as an SSE stream
+ * Used when the full output has to be known before anything is sent
+ */
+export const handleReplayStreamingChat = (
+  completion: OpenAIChatResponse,
+  requestId: string,
+  includeUsage = false
+): Response =>
+  new Response(new TextEncoder().encode(encodeReplayStream(completion, requestId, includeUsage)), {
+    headers: createStreamHeaders(requestId)
+  });
+
+/**
+ * Stream a completion that is generated in full before it can be sent
+ * The SSE response opens right away and carries heartbeats while generate runs,
+ * a failed generation is sent as an error event since the status is already 200
+ * generate receives a signal that aborts on client disconnect or stream cancel
+ */
+export const handleHeldStreamingChat = (
+  generate: (signal: AbortSignal) => Promise<Response>,
+  requestId: string,
+  includeUsage = false,
+  onComplete?: (completion: OpenAIChatResponse) => void,
+  signal?: AbortSignal
+): Response => {
+  let heartbeat: Heartbeat | undefined;
+  const upstreamAbort = new AbortController();
+  signal?.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let controllerClosed = false;
+
+      const write = (payload: string) => {
+        if (controllerClosed) return;
+        try {
+          controller.enqueue(encoder.encode(payload));
+        } catch (error) {
+          controllerClosed = true;
+        }
+      };
+
+      heartbeat = startHeartbeat(() => write(SSE_KEEP_ALIVE_COMMENT));
+      try {
+        const response = await generate(upstreamAbort.signal);
+        if (response.ok) {
+          const completion = await response.json() as OpenAIChatResponse;
+          onComplete?.(completion);
+          write(encodeReplayStream(completion, requestId, includeUsage));
+        } else {
+          write(`data: ${await response.text()}\n\n`);
+        }
+      } catch (error) {
+        logError(requestId, error);
+        write(`data: ${JSON.stringify({ error: { message: (error as Error).message || 'Internal streaming error', type: 'api_error' } })}\n\n`);
+      } finally {
+        heartbeat.stop();
+      }
+
+      if (!controllerClosed) {
+        controllerClosed = true;
+        try {
+          controller.close();
+        } catch {
+          // Stream may already be cancelled
+        }
+      }
     },
+    cancel() {
+      heartbeat?.stop();
+      upstreamAbort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: createStreamHeaders(requestId)
   });
 };
@@ -5,6 +5,7 @@
 
 import { OLLAMA_HOST, OLLAMA_API_KEY, LOCAL_OLLAMA_HOST } from '../config';
 import { isRemoteModel } from '../ollama-utils';
+import { isAbortError } from '../errors';
 
 export interface OllamaClientOptions {
   timeout?: number;
@@ -43,6 +44,7 @@ export class OllamaClient {
 
       return response;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error(`Local Ollama ${endpoint} error:`, (error as Error).message);
       throw new Error(`Local Ollama connection failed: ${(error as Error).message}`);
     }
@@ -75,6 +77,7 @@ export class OllamaClient {
 
       return response;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error(`Remote Ollama ${endpoint} error:`, (error as Error).message);
       throw new Error(`Remote Ollama connection failed: ${(error as Error).message}`);
     }
@@ -103,21 +106,39 @@ export class OllamaClient {
   }
 
   /**
-   * Generate embeddings using local Ollama
+   * Batched embeddings (/api/embed) with automatic routing (local vs remote)
    */
-  async generateEmbeddings(model: string, prompt: string, options: any = {}): Promise<any> {
-    const response = await this.fetchLocal('/api/embeddings', {
+  async embed(model: string, input: string[], options: any = {}, signal?: AbortSignal): Promise<Response> {
+    const requestOptions: RequestInit = {
       method: 'POST',
       body: JSON.stringify({
         model,
-        prompt,
+        input,
         keep_alive: '5m',
         ...options
-      })
-    });
+      }),
+      signal
+    };
+
+    return isRemoteModel(model)
+      ? this.fetchRemote('/api/embed', requestOptions)
+      : this.fetchLocal('/api/embed', requestOptions);
+  }
+
+  /**
+   * Show model details (capabilities, model_info) with automatic routing
+   */
+  async showModel(model: string): Promise<any> {
+    const options: RequestInit = {
+      method: 'POST',
+      body: JSON.stringify({ model })
+    };
+    const response = isRemoteModel(model)
+      ? await this.fetchRemote('/api/show', options)
+      : await this.fetchLocal('/api/show', options);
 
     if (!response.ok) {
-      throw new Error(`Embeddings failed: ${response.status} ${response.statusText}`);
+      throw new Error(`Show model failed: ${response.status} ${response.statusText}`);
     }
 
     return await response.json();
@@ -125,8 +146,9 @@ export class OllamaClient {
 
   /**
    * Chat completion with automatic routing (local vs remote)
+   * The signal cancels the upstream generation when the client goes away
    */
-  async chatCompletion(model: string, messages: any[], options: any = {}): Promise<Response> {
+  async chatCompletion(model: string, messages: any[], options: any = {}, signal?: AbortSignal): Promise<Response> {
     const useRemote = isRemoteModel(model);
     
     const requestBody = {
@@ -138,16 +160,33 @@ export class OllamaClient {
     if (useRemote) {
       return this.fetchRemote('/api/chat', {
         method: 'POST',
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
     } else {
       return this.fetchLocal('/api/chat', {
         method: 'POST',
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
     }
   }
 
+  /**
+   * Raw completion (/api/generate) with automatic routing (local vs remote)
+   */
+  async generateCompletion(model: string, options: any = {}, signal?: AbortSignal): Promise<Response> {
+    const requestOptions: RequestInit = {
+      method: 'POST',
+      body: JSON.stringify({ model, ...options }),
+      signal
+    };
+
+    return isRemoteModel(model)
+      ? this.fetchRemote('/api/generate', requestOptions)
+      : this.fetchLocal('/api/generate', requestOptions);
+  }
+
   /**
    * Generic proxy method for any Ollama endpoint with automatic routing
    */
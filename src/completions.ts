@@ -0,0 +1,356 @@
+import { validateAuth } from './auth';
+import { FIM_MODEL, SSE_HEARTBEAT_MODE } from './config';
+import { createErrorResponse, generateCompletionId, generateRequestId, isAbortError } from './errors';
+import { logCancelled, logChatRequest, logChatResponse, logError, logStreamingComplete, logStreamingStart } from './logger';
+import { mapDoneReason } from './ollama-utils';
+import { getModelService, getOllamaClient } from './services/container';
+import type {
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaOptions,
+  OpenAICompletionChoice,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  OpenAIUsage
+} from './types';
+import { createApiHeaders, createStreamHeaders } from './utils/headers';
+import { SSE_KEEP_ALIVE_COMMENT, startHeartbeat, type Heartbeat } from './utils/heartbeat';
+import { validateCompletionRequest, validateModel } from './validation';
+
+const buildGenerateUsage = (results: OllamaGenerateResponse[]): OpenAIUsage => {
+  const prompt = results.reduce((sum, r) => sum + (r.prompt_eval_count || 0), 0);
+  const completion = results.reduce((sum, r) => sum + (r.eval_count || 0), 0);
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion
+  };
+};
+
+/**
+ * Legacy OpenAI completions on top of Ollama's /api/generate
+ * Supports fill-in-the-middle through `suffix`, which inline code
+ * completion plugins still send to /v1/completions
+ */
+export const handleCompletions = async (req: Request): Promise<Response> => {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    const body = await req.json() as OpenAICompletionRequest;
+
+    logChatRequest(requestId, {
+      endpoint: '/v1/completions',
+      model: body.model,
+      prompt: body.prompt,
+      suffix: body.suffix,
+      stream: body.stream,
+      max_tokens: body.max_tokens,
+      temperature: body.temperature,
+      stop: body.stop,
+      echo: body.echo,
+      user: body.user
+    });
+
+    const validation = validateCompletionRequest(body);
+    if (validation) return validation;
+
+    // FIM requests can be routed to a dedicated coder model
+    const model = body.suffix !== undefined && FIM_MODEL ? FIM_MODEL : body.model;
+
+    const modelsResponse = await getModelService().getOpenAIModels();
+    if (!validateModel(model, modelsResponse.data.map((m) => m.id))) {
+      return createErrorResponse(
+        `The model '${model}' does not exist`,
+        'invalid_request_error',
+        404,
+        'model'
+      );
+    }
+
+    const options: OllamaOptions = {};
+    if (body.temperature !== undefined) options.temperature = body.temperature;
+    if (body.max_tokens !== undefined) options.num_predict = body.max_tokens;
+    if (body.top_p !== undefined) options.top_p = body.top_p;
+    if (body.frequency_penalty !== undefined) options.frequency_penalty = body.frequency_penalty;
+    if (body.presence_penalty !== undefined) options.presence_penalty = body.presence_penalty;
+    if (body.stop !== undefined) options.stop = Array.isArray(body.stop) ? body.stop : [body.stop];
+    if (body.seed !== undefined) options.seed = body.seed;
+
+    const { keep_alive, ...ollamaOptions } = body.options || {};
+    Object.assign(options, ollamaOptions);
+
+    const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt];
+    const generateRequests: OllamaGenerateRequest[] = prompts.map(prompt => ({
+      model,
+      prompt,
+      ...(body.suffix !== undefined && { suffix: body.suffix }),
+      ...(Object.keys(options).length > 0 && { options }),
+      ...(keep_alive !== undefined && { keep_alive })
+    }));
+
+    if (body.stream) {
+      return handleStreamingCompletion(generateRequests, model, body, requestId, req.signal);
+    }
+
+    return handleNonStreamingCompletion(generateRequests, model, body, requestId, req.signal);
+  } catch (error) {
+    logError(requestId, error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
+
+export const handleNonStreamingCompletion = async (
+  generateRequests: OllamaGenerateRequest[],
+  model: string,
+  originalRequest: OpenAICompletionRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  try {
+    const ollamaClient = getOllamaClient();
+    const results = await Promise.all(generateRequests.map(async (generateRequest) => {
+      const response = await ollamaClient.generateCompletion(model, { ...generateRequest, stream: false }, signal);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Ollama error ${response.status}:`, errorText);
+        throw new Error(`Ollama request failed: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json() as OllamaGenerateResponse;
+    }));
+
+    const completion: OpenAICompletionResponse = {
+      id: generateCompletionId(),
+      object: 'text_completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      system_fingerprint: 'fp_ollama_proxy',
+      choices: results.map((result, index): OpenAICompletionChoice => ({
+        text: (originalRequest.echo ? generateRequests[index].prompt : '') + (result.response || ''),
+        index,
+        logprobs: null,
+        finish_reason: mapDoneReason(result.done_reason)
+      })),
+      usage: buildGenerateUsage(results)
+    };
+
+    logChatResponse(requestId, completion, false, {
+      doneReason: results.map(result => result.done_reason)
+    });
+
+    return new Response(JSON.stringify(completion), {
+      headers: createApiHeaders(requestId)
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      logCancelled(requestId, { model, stream: false, reason: 'client disconnected' });
+      return createErrorResponse('Client closed request', 'invalid_request_error', 499);
+    }
+    logError(requestId, error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
+
+export const handleStreamingCompletion = async (
+  generateRequests: OllamaGenerateRequest[],
+  model: string,
+  originalRequest: OpenAICompletionRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const completionId = generateCompletionId();
+  const timestamp = Math.floor(Date.now() / 1000);
+  const streamingStartTime = Date.now();
+  const upstreamAbort = new AbortController();
+  const finalResults: OllamaGenerateResponse[] = [];
+  let fullText = '';
+  let cancelled = false;
+  let heartbeat: Heartbeat | undefined;
+
+  signal?.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
+  const cancelStream = (reason: string) => {
+    if (cancelled) return;
+    cancelled = true;
+    heartbeat?.stop();
+    upstreamAbort.abort();
+    logCancelled(requestId, { completionId, model, fullContent: fullText, reason });
+  };
+
+  logStreamingStart(requestId, model);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let controllerClosed = false;
+
+      // Heartbeats cover the wait for the first token and long silences in between
+      heartbeat = startHeartbeat(() => {
+        if (controllerClosed) return;
+        const payload = SSE_HEARTBEAT_MODE === 'empty_delta'
+          ? `data: ${JSON.stringify({
+              id: completionId,
+              object: 'text_completion',
+              created: timestamp,
+              model,
+              system_fingerprint: 'fp_ollama_proxy',
+              choices: [{ text: '', index: 0, logprobs: null, finish_reason: null }]
+            })}\n\n`
+          : SSE_KEEP_ALIVE_COMMENT;
+        try {
+          controller.enqueue(encoder.encode(payload));
+        } catch (error) {
+          controllerClosed = true;
+        }
+      });
+
+      const writeChunk = (data: OpenAICompletionResponse) => {
+        if (controllerClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          heartbeat?.touch();
+        } catch (error) {
+          controllerClosed = true;
+          console.warn('Controller closed, stopping writes');
+        }
+      };
+
+      const writeText = (index: number, text: string, finishReason: OpenAICompletionChoice['finish_reason'] = null) => {
+        if (index === 0) fullText += text;
+        writeChunk({
+          id: completionId,
+          object: 'text_completion',
+          created: timestamp,
+          model,
+          system_fingerprint: 'fp_ollama_proxy',
+          choices: [{ text, index, logprobs: null, finish_reason: finishReason }]
+        });
+      };
+
+      try {
+        const ollamaClient = getOllamaClient();
+
+        for (let index = 0; index < generateRequests.length && !controllerClosed; index++) {
+          const generateRequest = generateRequests[index];
+          const response = await ollamaClient.generateCompletion(
+            model,
+            { ...generateRequest, stream: true },
+            upstreamAbort.signal
+          );
+
+          if (!response.ok || !response.body) {
+            const errorText = await response.text();
+            console.error(`Ollama error ${response.status}:`, errorText);
+            throw new Error(`Ollama request failed: ${response.status}`);
+          }
+
+          if (originalRequest.echo) {
+            writeText(index, generateRequest.prompt);
+          }
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          let finished = false;
+
+          const processLine = (line: string) => {
+            if (!line.trim() || finished) return;
+            try {
+              const data = JSON.parse(line) as OllamaGenerateResponse;
+              if (data.response) writeText(index, data.response);
+              if (data.done) {
+                finalResults.push(data);
+                writeText(index, '', mapDoneReason(data.done_reason));
+                finished = true;
+              }
+            } catch (parseError) {
+              console.error('JSON parse error:', parseError, 'Line:', line);
+            }
+          };
+
+          try {
+            while (!finished && !controllerClosed) {
+              const { done, value } = await reader.read();
+              if (done) break;
+
+              buffer += decoder.decode(value, { stream: true });
+              const lines = buffer.split('\n');
+              buffer = lines.pop() || '';
+              lines.forEach(processLine);
+            }
+            processLine(buffer);
+
+            if (!finished) {
+              writeText(index, '', 'stop');
+            }
+          } finally {
+            reader.releaseLock();
+          }
+        }
+
+        if (originalRequest.stream_options?.include_usage) {
+          writeChunk({
+            id: completionId,
+            object: 'text_completion',
+            created: timestamp,
+            model,
+            system_fingerprint: 'fp_ollama_proxy',
+            choices: [],
+            usage: buildGenerateUsage(finalResults)
+          });
+        }
+      } catch (error) {
+        if (isAbortError(error) || cancelled) {
+          cancelStream('client disconnected');
+          controllerClosed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream may already be cancelled
+          }
+          return;
+        }
+        logError(requestId, error);
+        writeText(0, `Error: ${(error as Error).message || 'Internal streaming error'}`, 'stop');
+      }
+
+      heartbeat.stop();
+      if (!controllerClosed) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+        controllerClosed = true;
+
+        logStreamingComplete(requestId, {
+          completionId,
+          model,
+          contentLength: fullText.length,
+          fullContent: fullText,
+          doneReason: finalResults.map(result => result.done_reason),
+          durationMs: Date.now() - streamingStartTime
+        });
+      }
+    },
+    cancel() {
+      console.log('Stream cancelled by client');
+      cancelStream('stream cancelled by client');
+    }
+  });
+
+  return new Response(stream, {
+    headers: createStreamHeaders(requestId)
+  });
+};
@@ -19,11 +19,68 @@ export const loadEnvFile = () => {
   }
 };
 
+// Whole-number env var; unset, non-numeric or below min values fall back to the default
+const envInt = (name: string, fallback: number, min = 0): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+};
+
 export const OLLAMA_API_KEY = process.env.OLLAMA_API_KEY;
 export const PORT = 3304;
 export const OLLAMA_HOST = 'https://ollama.com';
 export const LOCAL_OLLAMA_HOST = process.env.LOCAL_OLLAMA_HOST || 'http://localhost:11434';
 export const OLLAMA_STREAM = process.env.OLLAMA_STREAM !== 'false';
+// Heartbeats while a stream is silent; must stay below the server idleTimeout (255s), 0 disables
+export const SSE_HEARTBEAT_INTERVAL_MS = envInt('SSE_HEARTBEAT_INTERVAL_MS', 15000);
+// 'comment' sends ": keep-alive", 'empty_delta' sends an empty chunk for clients that choke on comments
+export const SSE_HEARTBEAT_MODE = process.env.SSE_HEARTBEAT_MODE === 'empty_delta' ? 'empty_delta' : 'comment';
+// Check tool calls against their parameters schema, repairing or re-asking once on failure
+export const TOOL_CALL_VALIDATION = process.env.TOOL_CALL_VALIDATION !== 'false';
+// System prompt describing tools to models without native tool support, {{tools}} is replaced
+// by the tool schemas; the built-in template asks for <tool_call> blocks when empty
+export const TOOL_EMULATION_TEMPLATE = process.env.TOOL_EMULATION_TEMPLATE || '';
+// Extra attempts when a strict json_schema response fails validation
+export const JSON_SCHEMA_RETRIES = envInt('JSON_SCHEMA_RETRIES', 2);
+// Model used for fill-in-the-middle /v1/completions requests (those with a suffix),
+// e.g. a small local coder model while chat keeps going to remote gpt-oss
+export const FIM_MODEL = process.env.FIM_MODEL || '';
+// Upper bound for n, each choice is a separate upstream generation
+export const MAX_CHOICES = envInt('MAX_CHOICES', 8, 1);
+// Limits for http(s) image_url content parts fetched by the proxy
+export const IMAGE_FETCH_TIMEOUT_MS = envInt('IMAGE_FETCH_TIMEOUT_MS', 10000, 1);
+export const MAX_IMAGE_BYTES = envInt('MAX_IMAGE_BYTES', 20 * 1024 * 1024, 1);
+// Comma-separated hosts image_url may be fetched from (a leading dot allows subdomains);
+// any public host when empty. Listed hosts may resolve to private addresses, others may not
+export const IMAGE_FETCH_ALLOWED_HOSTS = (process.env.IMAGE_FETCH_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+// Context window assumed when /api/show does not report one for a model; 0 forwards
+// those requests untrimmed, a guessed limit could silently drop most of a long conversation
+export const DEFAULT_CONTEXT_LENGTH = envInt('DEFAULT_CONTEXT_LENGTH', 0);
+// How oversized conversations are fitted into the context window:
+// drop_oldest, truncate_tool_outputs or none
+export const CONTEXT_TRIM_POLICIES = ['drop_oldest', 'truncate_tool_outputs', 'none'] as const;
+const contextTrimPolicy = CONTEXT_TRIM_POLICIES.find(policy => policy === (process.env.CONTEXT_TRIM_POLICY || 'drop_oldest'));
+if (!contextTrimPolicy) {
+  console.warn(`Unknown CONTEXT_TRIM_POLICY '${process.env.CONTEXT_TRIM_POLICY}', expected ${CONTEXT_TRIM_POLICIES.join(', ')}; using drop_oldest`);
+}
+export const CONTEXT_TRIM_POLICY = contextTrimPolicy ?? 'drop_oldest';
+// Tokens kept free for the completion when the request has no max_tokens
+export const CONTEXT_OUTPUT_RESERVE = envInt('CONTEXT_OUTPUT_RESERVE', 1024);
+// Opt-in cache for deterministic chat requests (temperature 0 or a fixed seed)
+export const CHAT_CACHE_ENABLED = process.env.CHAT_CACHE_ENABLED === 'true';
+export const CHAT_CACHE_MAX_ENTRIES = envInt('CHAT_CACHE_MAX_ENTRIES', 500, 1);
+export const CHAT_CACHE_TTL_SECONDS = envInt('CHAT_CACHE_TTL_SECONDS', 3600, 1);
+// Directory for cache entries that survive restarts, in-memory only when empty
+export const CHAT_CACHE_DIR = process.env.CHAT_CACHE_DIR || '';
+// Inputs per upstream /api/embed call, and how many of those calls run at once
+export const EMBED_BATCH_SIZE = envInt('EMBED_BATCH_SIZE', 64, 1);
+export const EMBED_CONCURRENCY = envInt('EMBED_CONCURRENCY', 4, 1);
+// Opt-in SQLite cache of embeddings keyed by model digest and input text, evicted past EMBED_CACHE_MAX_MB
+export const EMBED_CACHE_ENABLED = process.env.EMBED_CACHE_ENABLED === 'true';
+export const EMBED_CACHE_PATH = process.env.EMBED_CACHE_PATH || 'data/embedding-cache.db';
+export const EMBED_CACHE_MAX_MB = envInt('EMBED_CACHE_MAX_MB', 512, 1);
 
 // Models available only on remote Ollama.com
 export const REMOTE_MODELS = ['gpt-oss:120b', 'gpt-oss:20b'];
@@ -32,5 +89,10 @@ export const KNOWN_ENDPOINTS = [
   { method: 'POST', path: '/v1/chat/completions' },
   { method: 'GET', path: '/v1/models' },
   { method: 'POST', path: '/v1/completions' },
-  { method: 'POST', path: '/v1/embeddings' }
+  { method: 'POST', path: '/v1/embeddings' },
+  { method: 'GET', path: '/v1/embeddings/cache' },
+  { method: 'POST', path: '/v1/responses' },
+  { method: 'POST', path: '/v1/messages' },
+  { method: 'POST', path: '/v1/tokenize' },
+  { method: 'POST', path: '/v1/detokenize' }
 ];
@@ -28,6 +28,11 @@ export const API_PATHS = {
   OPENAI_CHAT: '/v1/chat/completions',
   OPENAI_COMPLETIONS: '/v1/completions',
   OPENAI_EMBEDDINGS: '/v1/embeddings',
+  OPENAI_EMBEDDINGS_CACHE: '/v1/embeddings/cache',
+  OPENAI_RESPONSES: '/v1/responses',
+  OPENAI_TOKENIZE: '/v1/tokenize',
+  OPENAI_DETOKENIZE: '/v1/detokenize',
+  ANTHROPIC_MESSAGES: '/v1/messages',
   
   // Ollama endpoints
   OLLAMA_BASE: '/api',
@@ -56,8 +61,23 @@ export const DEFAULTS = {
   MAX_MESSAGE_LENGTH: 200000,
   LOG_DIR: './logs',
   STREAM_CHUNK_SIZE: 1024,
+  TOOL_ARGUMENTS_CHUNK_SIZE: 64,
+  MAX_STOP_SEQUENCES: 4,
 } as const;
 
+// Ollama options that may be passed through the OpenAI `options` extension field
+export const OLLAMA_PASSTHROUGH_OPTIONS = [
+  'num_ctx',
+  'top_k',
+  'min_p',
+  'repeat_penalty',
+  'repeat_last_n',
+  'mirostat',
+  'mirostat_eta',
+  'mirostat_tau',
+  'keep_alive',
+] as const;
+
 // Error Messages
 export const ERROR_MESSAGES = {
   MISSING_API_KEY: 'OLLAMA_API_KEY environment variable is required',
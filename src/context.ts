@@ -0,0 +1,252 @@
+/**
+ * Context-window management
+ * Counts the prompt before it is forwarded and trims oversized conversations
+ * so long agent sessions fit the model instead of failing upstream
+ */
+
+import { CONTEXT_OUTPUT_RESERVE, CONTEXT_TRIM_POLICIES, CONTEXT_TRIM_POLICY, DEFAULT_CONTEXT_LENGTH } from './config';
+import { createErrorResponse } from './errors';
+import { logContextTrim } from './logger';
+import { getModelService } from './services/container';
+import type { OllamaChatMessage, OllamaChatRequest } from './types';
+import { countTokens, encodeChatMessages } from './tokenizer';
+
+export type ContextTrimPolicy = typeof CONTEXT_TRIM_POLICIES[number];
+
+export interface ContextTrimSummary {
+  contextLength: number;
+  promptTokensBefore: number;
+  promptTokensAfter: number;
+  droppedMessages: number;
+  truncatedToolOutputs: number;
+}
+
+// Tool outputs are never truncated below this size
+const MIN_TOOL_OUTPUT_TOKENS = 256;
+
+export const countMessageTokens = (message: OllamaChatMessage): number =>
+  encodeChatMessages([message]).length;
+
+export interface PromptTokenCounts {
+  /** Tokens of each message, in message order */
+  messageTokens: number[];
+  toolTokens: number;
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Tokenize a prompt once, the counts are reused while trimming
+ */
+export const countPromptTokenParts = (messages: OllamaChatMessage[], tools?: unknown[]): PromptTokenCounts => ({
+  messageTokens: messages.map(countMessageTokens),
+  toolTokens: tools?.length ? countTokens(JSON.stringify(tools)) : 0
+});
+
+export const countPromptTokens = (messages: OllamaChatMessage[], tools?: unknown[]): number => {
+  const { messageTokens, toolTokens } = countPromptTokenParts(messages, tools);
+  return sum(messageTokens) + toolTokens;
+};
+
+/**
+ * Keep the start and end of a text, replacing the middle with a marker
+ */
+export const truncateMiddle = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) return text;
+  const removed = text.length - maxChars;
+  const marker = `\n[... ${removed} characters truncated ...]\n`;
+  const keep = Math.max(0, maxChars - marker.length);
+  const head = Math.ceil(keep / 2);
+  return text.slice(0, head) + marker + text.slice(text.length - (keep - head));
+};
+
+/**
+ * Group messages into units that are dropped together: an assistant message
+ * with tool_calls stays with the tool results answering it
+ */
+const groupTurns = (messages: OllamaChatMessage[]): number[][] => {
+  const units: number[][] = [];
+  messages.forEach((message, index) => {
+    if (message.role === 'system') return;
+    const previous = units[units.length - 1];
+    const previousMessage = previous ? messages[previous[previous.length - 1]] : undefined;
+    const continuesToolTurn = message.role === 'tool' &&
+      (previousMessage?.role === 'tool' || !!previousMessage?.tool_calls?.length);
+    if (continuesToolTurn) {
+      previous.push(index);
+    } else {
+      units.push([index]);
+    }
+  });
+  return units;
+};
+
+interface FittedMessages {
+  messages: OllamaChatMessage[];
+  droppedMessages: number;
+  truncatedToolOutputs: number;
+  promptTokens: number;
+}
+
+const dropOldestTurns = (messages: OllamaChatMessage[], messageTokens: number[], budget: number, toolTokens: number): FittedMessages => {
+  const units = groupTurns(messages);
+  const dropped = new Set<number>();
+  let total = sum(messageTokens) + toolTokens;
+
+  // The latest turn is always kept, system messages are never units
+  for (const unit of units.slice(0, -1)) {
+    if (total <= budget) break;
+    for (const index of unit) {
+      dropped.add(index);
+      total -= messageTokens[index];
+    }
+  }
+
+  return {
+    messages: messages.filter((_, index) => !dropped.has(index)),
+    droppedMessages: dropped.size,
+    truncatedToolOutputs: 0,
+    promptTokens: total
+  };
+};
+
+const truncateToolOutputs = (messages: OllamaChatMessage[], messageTokens: number[], budget: number, toolTokens: number): FittedMessages => {
+  let total = sum(messageTokens) + toolTokens;
+  let truncatedToolOutputs = 0;
+
+  const toolIndexes = messages
+    .map((message, index) => ({ index, tokens: message.role === 'tool' ? messageTokens[index] : 0 }))
+    .filter(entry => entry.tokens > MIN_TOOL_OUTPUT_TOKENS)
+    .sort((a, b) => b.tokens - a.tokens);
+
+  const result = [...messages];
+  for (const { index, tokens } of toolIndexes) {
+    if (total <= budget) break;
+    const target = tokens - Math.min(total - budget, tokens - MIN_TOOL_OUTPUT_TOKENS);
+    const content = result[index].content || '';
+    let maxChars = content.length;
+    let truncated = result[index];
+    let truncatedTokens = tokens;
+
+    // Shrink proportionally until the message fits, the marker itself costs tokens too
+    while (truncatedTokens > target && maxChars > 0) {
+      maxChars = Math.floor(maxChars * target / truncatedTokens) - 1;
+      truncated = { ...result[index], content: truncateMiddle(content, maxChars) };
+      truncatedTokens = countMessageTokens(truncated);
+    }
+
+    result[index] = truncated;
+    total -= tokens - truncatedTokens;
+    truncatedToolOutputs++;
+  }
+
+  return { messages: result, droppedMessages: 0, truncatedToolOutputs, promptTokens: total };
+};
+
+/**
+ * Fit messages into a token budget using the given policy
+ * Token counts already taken for these messages can be passed in to skip re-tokenizing
+ */
+export const fitMessagesToContext = (
+  messages: OllamaChatMessage[],
+  budget: number,
+  policy: ContextTrimPolicy,
+  tools?: unknown[],
+  counts: PromptTokenCounts = countPromptTokenParts(messages, tools)
+): FittedMessages => {
+  const { messageTokens, toolTokens } = counts;
+  const promptTokens = sum(messageTokens) + toolTokens;
+  if (policy === 'none' || promptTokens <= budget) {
+    return { messages, droppedMessages: 0, truncatedToolOutputs: 0, promptTokens };
+  }
+  return policy === 'truncate_tool_outputs'
+    ? truncateToolOutputs(messages, messageTokens, budget, toolTokens)
+    : dropOldestTurns(messages, messageTokens, budget, toolTokens);
+};
+
+// Models already reported as having no known context length
+const modelsWithoutContextLength = new Set<string>();
+
+/**
+ * Resolve the context window for a request: an explicit num_ctx wins,
+ * then the model's /api/show context_length, then DEFAULT_CONTEXT_LENGTH
+ * Returns null when none of them is known
+ */
+export const resolveContextLength = async (ollamaRequest: OllamaChatRequest): Promise<number | null> => {
+  if (ollamaRequest.options?.num_ctx) return ollamaRequest.options.num_ctx;
+  const contextLength = await getModelService().getContextLength(ollamaRequest.model);
+  return contextLength ?? (DEFAULT_CONTEXT_LENGTH || null);
+};
+
+/**
+ * Trim ollamaRequest.messages in place so the prompt fits the context window
+ * Returns a summary when something was removed, or an error response when the
+ * conversation cannot be made to fit. Requests for models with no known
+ * context length are forwarded untouched
+ */
+export const applyContextLimit = async (
+  ollamaRequest: OllamaChatRequest,
+  requestId: string
+): Promise<ContextTrimSummary | Response | null> => {
+  const policy = CONTEXT_TRIM_POLICY;
+  if (policy === 'none') return null;
+
+  const contextLength = await resolveContextLength(ollamaRequest);
+  if (contextLength === null) {
+    if (!modelsWithoutContextLength.has(ollamaRequest.model)) {
+      modelsWithoutContextLength.add(ollamaRequest.model);
+      console.warn(`No context length known for ${ollamaRequest.model}, forwarding without trimming; set DEFAULT_CONTEXT_LENGTH or options.num_ctx to trim`);
+    }
+    return null;
+  }
+
+  const reserve = Math.min(
+    ollamaRequest.options?.num_predict && ollamaRequest.options.num_predict > 0
+      ? ollamaRequest.options.num_predict
+      : CONTEXT_OUTPUT_RESERVE,
+    Math.floor(contextLength / 2)
+  );
+  const budget = contextLength - reserve;
+
+  const counts = countPromptTokenParts(ollamaRequest.messages, ollamaRequest.tools);
+  const promptTokensBefore = sum(counts.messageTokens) + counts.toolTokens;
+  if (promptTokensBefore <= budget) return null;
+
+  const fitted = fitMessagesToContext(ollamaRequest.messages, budget, policy, ollamaRequest.tools, counts);
+  const promptTokensAfter = fitted.promptTokens;
+
+  if (promptTokensAfter > budget) {
+    return createErrorResponse(
+      `This model's maximum context length is ${contextLength} tokens. However, your messages resulted in about ${promptTokensAfter} tokens after trimming (${reserve} tokens are reserved for the completion). Please reduce the length of the messages.`,
+      'invalid_request_error',
+      400,
+      'messages',
+      'context_length_exceeded'
+    );
+  }
+
+  ollamaRequest.messages = fitted.messages;
+  const summary: ContextTrimSummary = {
+    contextLength,
+    promptTokensBefore,
+    promptTokensAfter,
+    droppedMessages: fitted.droppedMessages,
+    truncatedToolOutputs: fitted.truncatedToolOutputs
+  };
+  logContextTrim(requestId, { model: ollamaRequest.model, policy, ...summary });
+  return summary;
+};
+
+/**
+ * Report what was trimmed in the x-context-trimmed response header
+ */
+export const withContextTrimHeader = (response: Response, summary: ContextTrimSummary | null): Response => {
+  if (!summary) return response;
+  response.headers.set('x-context-trimmed', [
+    `dropped_messages=${summary.droppedMessages}`,
+    `truncated_tool_outputs=${summary.truncatedToolOutputs}`,
+    `prompt_tokens=${summary.promptTokensBefore}->${summary.promptTokensAfter}`,
+    `context_length=${summary.contextLength}`
+  ].join('; '));
+  return response;
+};
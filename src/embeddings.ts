@@ -1,6 +1,9 @@
+import { validateAuth } from './auth';
+import { EMBED_BATCH_SIZE, EMBED_CONCURRENCY } from './config';
 import { createErrorResponse } from './errors';
-import { getOllamaClient } from './services/container';
+import { getEmbeddingCache, getModelService, getOllamaClient } from './services/container';
 import { createApiHeaders } from './utils/headers';
+import { countTokens } from './tokenizer';
 
 export interface OpenAIEmbeddingRequest {
   model: string;
@@ -10,13 +13,16 @@ export interface OpenAIEmbeddingRequest {
   user?: string;
 }
 
+export interface OpenAIEmbedding {
+  object: 'embedding';
+  /** Floats, or little-endian float32 bytes as base64 for encoding_format base64 */
+  embedding: number[] | string;
+  index: number;
+}
+
 export interface OpenAIEmbeddingResponse {
   object: 'list';
-  data: Array<{
-    object: 'embedding';
-    embedding: number[];
-    index: number;
-  }>;
+  data: OpenAIEmbedding[];
   model: string;
   usage: {
     prompt_tokens: number;
@@ -24,128 +30,314 @@ export interface OpenAIEmbeddingResponse {
   };
 }
 
-export interface OllamaEmbeddingRequest {
+export interface OllamaEmbedRequest {
   model: string;
-  prompt: string;
+  input: string[];
+  truncate?: boolean;
   options?: Record<string, unknown>;
   keep_alive?: string;
 }
 
-export interface OllamaEmbeddingResponse {
-  embedding: number[];
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
+
+interface EmbedFailure {
+  index: number;
+  status: number;
+  message: string;
 }
 
-function estimateTokens(text: string): number {
-  // Rough estimate: ~4 characters per token
-  return Math.ceil(text.length / 4);
+interface EmbedState {
+  model: string;
+  embeddings: Array<number[] | undefined>;
+  /** Prompt tokens per input, the same whether the input was cached or embedded */
+  tokens: number[];
+  failures: EmbedFailure[];
 }
 
+/**
+ * Matryoshka-style shortening: keep the first dimensions values and
+ * re-normalize to unit length so cosine and dot products stay comparable
+ */
+export const truncateEmbedding = (embedding: number[], dimensions: number): number[] => {
+  const truncated = embedding.slice(0, dimensions);
+  const norm = Math.sqrt(truncated.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? truncated.map(value => value / norm) : truncated;
+};
+
+/**
+ * Encode an embedding the way the OpenAI SDKs decode base64: little-endian float32
+ */
+export const encodeEmbeddingBase64 = (embedding: number[]): string => {
+  const view = new DataView(new ArrayBuffer(embedding.length * 4));
+  embedding.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  return Buffer.from(view.buffer).toString('base64');
+};
+
+/**
+ * Split a batch's prompt_eval_count over its inputs in proportion to their
+ * local token counts, so each input can be cached with its own share
+ */
+const splitTokenCount = (total: number, localCounts: number[]): number[] => {
+  const localTotal = localCounts.reduce((sum, count) => sum + count, 0);
+  let assigned = 0;
+  return localCounts.map((count, i) => {
+    if (i === localCounts.length - 1) return total - assigned;
+    const share = localTotal > 0
+      ? Math.floor(total * count / localTotal)
+      : Math.floor(total / localCounts.length);
+    assigned += share;
+    return share;
+  });
+};
+
+/**
+ * Run async tasks with at most limit of them in flight, results keep task order
+ */
+const runWithConcurrency = async <T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> => {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+};
+
+/**
+ * Embed one batch through /api/embed
+ * When upstream rejects the batch, its inputs are retried one by one so a
+ * single input the model cannot embed only fails its own index
+ */
+const embedBatch = async (state: EmbedState, batch: Array<{ index: number; text: string }>): Promise<void> => {
+  const fail = (status: number, message: string) => {
+    state.failures.push(...batch.map(item => ({ index: item.index, status, message })));
+  };
+
+  let response: Response;
+  try {
+    response = await getOllamaClient().embed(state.model, batch.map(item => item.text));
+  } catch (error) {
+    fail(502, (error as Error).message || 'Ollama connection failed');
+    return;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    // A missing model fails every input the same way, retrying them is pointless
+    if (batch.length === 1 || response.status === 404) {
+      fail(response.status, `Ollama returned ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+      return;
+    }
+    console.warn(`Embedding batch of ${batch.length} rejected with ${response.status}, retrying inputs one by one`);
+    for (const item of batch) {
+      await embedBatch(state, [item]);
+    }
+    return;
+  }
+
+  const result = await response.json() as OllamaEmbedResponse;
+  if (!Array.isArray(result.embeddings) || result.embeddings.length !== batch.length) {
+    fail(502, 'Invalid embedding response from Ollama');
+    return;
+  }
+
+  const localCounts = batch.map(item => countTokens(item.text));
+  const tokens = result.prompt_eval_count !== undefined
+    ? splitTokenCount(result.prompt_eval_count, localCounts)
+    : localCounts;
+  batch.forEach((item, i) => {
+    state.embeddings[item.index] = result.embeddings[i];
+    state.tokens[item.index] = tokens[i];
+  });
+};
+
+const createDimensionsError = (model: string, dimensions: number, nativeDimensions: number): Response =>
+  createErrorResponse(
+    `Dimensions ${dimensions} is larger than the ${nativeDimensions} dimensions of model '${model}'`,
+    'invalid_request_error',
+    400,
+    'dimensions'
+  );
+
 export async function handleEmbeddings(req: Request): Promise<Response> {
   const requestId = crypto.randomUUID();
-  
+
   try {
     const body = await req.json() as OpenAIEmbeddingRequest;
-    
+
     // Validate request
     if (!body.model || !body.input) {
       return createErrorResponse(
         'Missing required fields: model and input',
         'invalid_request_error',
         400,
-        requestId
+        body.model ? 'input' : 'model'
       );
     }
 
     // Convert input to array format for processing
     const inputs = Array.isArray(body.input) ? body.input : [body.input];
-    
+
     if (inputs.length === 0) {
       return createErrorResponse(
         'Input cannot be empty',
         'invalid_request_error',
         400,
-        requestId
+        'input'
+      );
+    }
+
+    if (inputs.some(text => typeof text !== 'string')) {
+      return createErrorResponse(
+        'All input items must be strings',
+        'invalid_request_error',
+        400,
+        'input'
       );
     }
 
-    // Process each input text
-    const embeddings: Array<{ object: 'embedding'; embedding: number[]; index: number }> = [];
-    let totalTokens = 0;
+    const { dimensions, encoding_format: encodingFormat = 'float' } = body;
 
-    for (let i = 0; i < inputs.length; i++) {
-      const text = inputs[i];
-      if (typeof text !== 'string') {
-        return createErrorResponse(
-          'All input items must be strings',
-          'invalid_request_error',
-          400,
-          requestId
-        );
+    if (encodingFormat !== 'float' && encodingFormat !== 'base64') {
+      return createErrorResponse(
+        'Encoding_format must be float or base64',
+        'invalid_request_error',
+        400,
+        'encoding_format'
+      );
+    }
+
+    if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+      return createErrorResponse(
+        'Dimensions must be a positive integer',
+        'invalid_request_error',
+        400,
+        'dimensions'
+      );
+    }
+
+    // Checked up front when /api/show reports the size, otherwise on the first embedding
+    const nativeDimensions = dimensions !== undefined
+      ? await getModelService().getEmbeddingLength(body.model)
+      : null;
+    if (dimensions !== undefined && nativeDimensions !== null && dimensions > nativeDimensions) {
+      return createDimensionsError(body.model, dimensions, nativeDimensions);
+    }
+
+    const state: EmbedState = {
+      model: body.model,
+      embeddings: new Array(inputs.length),
+      tokens: new Array(inputs.length).fill(0),
+      failures: []
+    };
+
+    // Cached inputs skip the upstream call and bill the tokens stored with them
+    const cache = getEmbeddingCache();
+    const digest = cache.isEnabled ? await getModelService().getModelDigest(body.model) : null;
+    const pending: Array<{ index: number; text: string }> = [];
+    const cached = digest ? cache.getMany(body.model, digest, inputs) : [];
+    inputs.forEach((text, index) => {
+      const entry = cached[index];
+      if (entry) {
+        state.embeddings[index] = entry.embedding;
+        state.tokens[index] = entry.tokens ?? countTokens(text);
+      } else {
+        pending.push({ index, text });
       }
+    });
 
-      // Prepare Ollama request
-      const ollamaRequest: OllamaEmbeddingRequest = {
-        model: body.model,
-        prompt: text,
-        keep_alive: '5m'
-      };
+    // Batches run concurrently, results are written back by input index
+    const batchSize = Math.max(1, EMBED_BATCH_SIZE);
+    const batches: Array<Array<{ index: number; text: string }>> = [];
+    for (let offset = 0; offset < pending.length; offset += batchSize) {
+      batches.push(pending.slice(offset, offset + batchSize));
+    }
+    await runWithConcurrency(batches.map(batch => () => embedBatch(state, batch)), EMBED_CONCURRENCY);
+
+    if (digest) {
+      cache.setMany(body.model, digest, pending.flatMap(({ index, text }) => {
+        const embedding = state.embeddings[index];
+        return embedding ? [{ text, embedding, tokens: state.tokens[index] }] : [];
+      }));
+    }
 
-      // Call Ollama embeddings API using client
-      try {
-        const ollamaClient = getOllamaClient();
-        const ollamaResult = await ollamaClient.generateEmbeddings(body.model, text);
-
-        if (!ollamaResult.embedding || !Array.isArray(ollamaResult.embedding)) {
-          return createErrorResponse(
-            'Invalid embedding response from Ollama',
-            'api_error',
-            500,
-            requestId
-          );
-        }
-
-        embeddings.push({
-          object: 'embedding',
-          embedding: ollamaResult.embedding,
-          index: i
-        });
-
-        totalTokens += estimateTokens(text);
-      } catch (embedError) {
-        console.error(`[${new Date().toISOString()}] Embedding error for text ${i}:`, embedError);
-        
-        if ((embedError as Error).message.includes('Model')) {
-          return createErrorResponse(
-            `Model '${body.model}' not found. Make sure it's pulled in Ollama.`,
-            'invalid_request_error',
-            404,
-            requestId
-          );
-        }
-        
+    // One failed input fails the request, like OpenAI; the others stay cached for the retry
+    const failures = state.failures.sort((a, b) => a.index - b.index);
+    if (failures.length > 0) {
+      console.error(`[${new Date().toISOString()}] Embeddings failed for inputs ${failures.map(failure => failure.index).join(', ')} of ${inputs.length}`);
+
+      if (failures.length === inputs.length && failures.every(failure => failure.status === 404)) {
         return createErrorResponse(
-          'Failed to generate embeddings',
-          'api_error',
-          500,
-          requestId
+          `Model '${body.model}' not found. Make sure it's pulled in Ollama.`,
+          'invalid_request_error',
+          404,
+          'model'
         );
       }
+
+      // Inputs failing with the same message are reported together
+      const indexesByMessage = new Map<string, number[]>();
+      for (const { index, message } of failures) {
+        indexesByMessage.set(message, [...(indexesByMessage.get(message) || []), index]);
+      }
+      const details = [...indexesByMessage]
+        .map(([message, indexes]) => `input${indexes.length > 1 ? 's' : ''} ${indexes.join(', ')}: ${message}`)
+        .join('; ');
+
+      // A client error only when every input was rejected as one
+      const statuses = new Set(failures.map(failure => failure.status));
+      const clientError = failures.every(failure => failure.status >= 400 && failure.status < 500);
+      return createErrorResponse(
+        `Failed to generate embeddings for ${details}`,
+        clientError ? 'invalid_request_error' : 'api_error',
+        clientError ? (statuses.size === 1 ? failures[0].status : 400) : 500,
+        'input'
+      );
     }
 
+    const embeddedLength = state.embeddings[0]?.length ?? 0;
+    if (dimensions !== undefined && dimensions > embeddedLength) {
+      return createDimensionsError(body.model, dimensions, embeddedLength);
+    }
+
+    const data: OpenAIEmbedding[] = (state.embeddings as number[][]).map((embedding, index) => {
+      const shaped = dimensions !== undefined && dimensions < embedding.length
+        ? truncateEmbedding(embedding, dimensions)
+        : embedding;
+      return {
+        object: 'embedding',
+        embedding: encodingFormat === 'base64' ? encodeEmbeddingBase64(shaped) : shaped,
+        index
+      };
+    });
+    const promptTokens = state.tokens.reduce((sum, count) => sum + count, 0);
+
     // Build OpenAI-compatible response
     const response: OpenAIEmbeddingResponse = {
       object: 'list',
-      data: embeddings,
+      data,
       model: body.model,
       usage: {
-        prompt_tokens: totalTokens,
-        total_tokens: totalTokens
+        prompt_tokens: promptTokens,
+        total_tokens: promptTokens
       }
     };
 
+    const headers = createApiHeaders(requestId);
+    if (digest) {
+      headers['x-cache'] = pending.length === 0 ? 'hit' : pending.length === inputs.length ? 'miss' : 'partial';
+    }
+
     return new Response(JSON.stringify(response), {
       status: 200,
-      headers: createApiHeaders(requestId)
+      headers
     });
 
   } catch (error) {
@@ -153,8 +345,18 @@ export async function handleEmbeddings(req: Request): Promise<Response> {
     return createErrorResponse(
       'Failed to process embeddings request',
       'api_error',
-      500,
-      requestId
+      500
     );
   }
-}
\ No newline at end of file
+}
+
+export async function handleEmbeddingCacheStats(req: Request): Promise<Response> {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  return new Response(JSON.stringify(getEmbeddingCache().stats()), {
+    headers: createApiHeaders(crypto.randomUUID())
+  });
+}
@@ -1,8 +1,13 @@
 import type { OpenAIErrorResponse } from './types';
 
 export const generateId = () => `chatcmpl-${Math.random().toString(36).substring(2, 15)}`;
+export const generateCompletionId = () => `cmpl-${Math.random().toString(36).substring(2, 15)}`;
+export const generateToolCallId = () => `call_${Math.random().toString(36).substring(2, 15)}`;
 export const generateRequestId = () => `req_${Math.random().toString(36).substring(2, 15)}`;
 
+export const isAbortError = (error: unknown): boolean =>
+  (error as Error)?.name === 'AbortError';
+
 export const createErrorResponse = (
   message: string,
   type: string,
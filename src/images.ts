@@ -0,0 +1,247 @@
+import { lookup } from 'node:dns/promises';
+import { get as httpGet, type IncomingMessage } from 'node:http';
+import { get as httpsGet } from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { IMAGE_FETCH_ALLOWED_HOSTS, IMAGE_FETCH_TIMEOUT_MS, MAX_IMAGE_BYTES } from './config';
+import { createErrorResponse } from './errors';
+import type { OllamaChatMessage, OpenAIMessage } from './types';
+
+type ContentPart = { type: string; text?: string; image_url?: unknown };
+
+const getImageUrl = (part: ContentPart): string | null => {
+  if (part.type !== 'image_url' || !part.image_url) return null;
+  if (typeof part.image_url === 'string') return part.image_url;
+  const url = (part.image_url as { url?: unknown }).url;
+  return typeof url === 'string' ? url : null;
+};
+
+const getContentParts = (message: OpenAIMessage): ContentPart[] =>
+  Array.isArray(message.content) ? message.content.filter(Boolean) as ContentPart[] : [];
+
+export const hasImageContent = (messages: OpenAIMessage[]): boolean =>
+  messages.some(msg => getContentParts(msg).some(part => getImageUrl(part) !== null));
+
+const decodeDataUrl = (url: string): string => {
+  const match = url.match(/^data:([^,]*?),(.*)$/s);
+  if (!match) {
+    throw new Error('Malformed data URL');
+  }
+
+  const [, meta, data] = match;
+  const base64 = meta.endsWith(';base64')
+    ? data.replace(/\s/g, '')
+    : Buffer.from(decodeURIComponent(data)).toString('base64');
+
+  if (Math.floor(base64.length * 3 / 4) > MAX_IMAGE_BYTES) {
+    throw new Error(`Image exceeds the ${MAX_IMAGE_BYTES} byte limit`);
+  }
+
+  return base64;
+};
+
+// Redirects followed per image download, every hop is checked like the first URL
+const MAX_IMAGE_REDIRECTS = 5;
+
+// Loopback, private, shared, link-local, benchmarking, multicast and reserved IPv4 ranges
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+];
+
+const ipv4ToNumber = (ip: string): number => ip.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const isBlockedIPv4 = (ip: string): boolean => {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+};
+
+// Eight 16-bit groups, a trailing dotted IPv4 part becomes the last two
+const expandIPv6 = (ip: string): number[] => {
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  let text = ip;
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = `${ip.slice(0, dotted.index)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const start = parse(head);
+  const end = parse(tail);
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+};
+
+const isBlockedIPv6 = (ip: string): boolean => {
+  const groups = expandIPv6(ip.toLowerCase());
+  const [first] = groups;
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+  // ::, ::1, IPv4-compatible and IPv4-mapped addresses are judged by their IPv4 part
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isBlockedIPv4(embeddedIPv4());
+  }
+  // NAT64 well-known prefix
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isBlockedIPv4(embeddedIPv4());
+  }
+  return (first & 0xfe00) === 0xfc00 // unique local
+    || (first & 0xffc0) === 0xfe80 // link-local
+    || (first & 0xffc0) === 0xfec0 // site-local
+    || (first & 0xff00) === 0xff00; // multicast
+};
+
+const isBlockedAddress = (ip: string): boolean =>
+  isIP(ip) === 6 ? isBlockedIPv6(ip) : isBlockedIPv4(ip);
+
+const isAllowedHost = (host: string): boolean =>
+  IMAGE_FETCH_ALLOWED_HOSTS.some(entry => entry.startsWith('.')
+    ? host.endsWith(entry) || host === entry.slice(1)
+    : host === entry);
+
+/**
+ * Keep image downloads away from the proxy's own network: with an allowlist
+ * only listed hosts are fetched, otherwise literal private addresses are
+ * refused here and resolved names in guardedLookup
+ */
+const checkImageHost = (url: URL): void => {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (IMAGE_FETCH_ALLOWED_HOSTS.length > 0) {
+    if (!isAllowedHost(host)) {
+      throw new Error(`Image host '${host}' is not in IMAGE_FETCH_ALLOWED_HOSTS`);
+    }
+    return;
+  }
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`Image host '${host}' is a private or local address`);
+  }
+};
+
+/**
+ * DNS lookup for image downloads that refuses private and local addresses
+ * The socket connects to the address checked here, so a second resolution
+ * cannot swap in an internal one (DNS rebinding)
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { family: options.family, hints: options.hints, all: true }).then(entries => {
+    if (entries.length === 0 || entries.some(entry => isBlockedAddress(entry.address))) {
+      callback(new Error(`host '${hostname}' resolves to a private or local address`), '', 0);
+    } else if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  }, error => callback(error, '', 0));
+};
+
+const requestImage = (target: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const get = target.protocol === 'https:' ? httpsGet : httpGet;
+    // Allowlisted hosts are trusted by name and resolved normally
+    const lookupOption = IMAGE_FETCH_ALLOWED_HOSTS.length === 0 ? { lookup: guardedLookup } : {};
+    get(target, { signal, ...lookupOption }, resolve).on('error', reject);
+  });
+
+const fetchImage = async (url: string): Promise<string> => {
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+  let target = new URL(url);
+  let response: IncomingMessage;
+
+  for (let redirects = 0; ; redirects++) {
+    checkImageHost(target);
+    try {
+      response = await requestImage(target, signal);
+    } catch (error) {
+      throw new Error(`Failed to download image: ${(error as Error).message}`);
+    }
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) break;
+    response.destroy();
+    if (redirects >= MAX_IMAGE_REDIRECTS) {
+      throw new Error(`Failed to download image: more than ${MAX_IMAGE_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error('Failed to download image: redirected to a non-http(s) URL');
+    }
+  }
+
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.destroy();
+    throw new Error(`Failed to download image: ${status} ${response.statusMessage || ''}`.trimEnd());
+  }
+
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength > MAX_IMAGE_BYTES) {
+    response.destroy();
+    throw new Error(`Image exceeds the ${MAX_IMAGE_BYTES} byte limit`);
+  }
+
+  // Count bytes as they arrive, content-length may be missing or wrong
+  const chunks: Buffer[] = [];
+  let received = 0;
+  try {
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      received += chunk.length;
+      if (received > MAX_IMAGE_BYTES) {
+        response.destroy();
+        throw new Error(`Image exceeds the ${MAX_IMAGE_BYTES} byte limit`);
+      }
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    if (received > MAX_IMAGE_BYTES) throw error;
+    throw new Error(`Failed to download image: ${(error as Error).message}`);
+  }
+
+  return Buffer.concat(chunks).toString('base64');
+};
+
+/**
+ * Load an image_url (data: or http(s):) as base64 for Ollama's images field
+ */
+export const loadImageAsBase64 = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return decodeDataUrl(url);
+  if (/^https?:\/\//i.test(url)) return fetchImage(url);
+  throw new Error('Unsupported image URL, expected a data: or http(s): URL');
+};
+
+/**
+ * Resolve image_url content parts and attach them to the matching Ollama messages
+ * Returns an error response for the first image that cannot be loaded
+ */
+export const attachMessageImages = async (
+  messages: OpenAIMessage[],
+  ollamaMessages: OllamaChatMessage[]
+): Promise<Response | null> => {
+  for (let i = 0; i < messages.length; i++) {
+    const parts = getContentParts(messages[i]);
+    const images: string[] = [];
+
+    for (let j = 0; j < parts.length; j++) {
+      const url = getImageUrl(parts[j]);
+      if (!url) continue;
+
+      try {
+        images.push(await loadImageAsBase64(url));
+      } catch (error) {
+        return createErrorResponse(
+          `Invalid image in messages[${i}].content[${j}]: ${(error as Error).message}`,
+          'invalid_request_error',
+          400,
+          `messages[${i}].content[${j}].image_url`
+        );
+      }
+    }
+
+    if (images.length > 0) {
+      ollamaMessages[i].images = images;
+    }
+  }
+
+  return null;
+};
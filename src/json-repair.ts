@@ -0,0 +1,146 @@
+/**
+ * Lenient JSON parsing for model output
+ * Fixes the syntax mistakes models commonly make in JSON they write by hand:
+ * code fences, surrounding prose, trailing commas, unquoted keys, single
+ * quoted strings, Python literals, raw newlines in strings and unclosed brackets
+ */
+
+export interface JsonRepairResult {
+  value: unknown;
+  /** What had to be fixed, empty when the text was valid JSON */
+  repairs: string[];
+}
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+const tryParse = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read a string literal starting at text[start], re-emitted as a JSON string
+ */
+const readString = (text: string, start: number, repairs: Set<string>): { json: string; end: number } => {
+  const quote = text[start];
+  if (quote === "'") repairs.add('single quoted strings');
+
+  let value = '';
+  let i = start + 1;
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      const next = text[++i];
+      // \' is not a JSON escape, everything else is kept as written
+      value += next === "'" ? "'" : `\\${next}`;
+    } else if (char === quote) {
+      return { json: `"${value}"`, end: i + 1 };
+    } else if (char === '"') {
+      value += '\\"';
+    } else if (char === '\n' || char === '\r' || char === '\t') {
+      repairs.add('unescaped control characters');
+      value += char === '\n' ? '\\n' : char === '\r' ? '\\r' : '\\t';
+    } else {
+      value += char;
+    }
+  }
+
+  repairs.add('unterminated string');
+  return { json: `"${value}"`, end: i };
+};
+
+const dropTrailingComma = (output: string, repairs: Set<string>): string => {
+  const trimmed = output.replace(/,\s*$/, '');
+  if (trimmed !== output) repairs.add('trailing commas');
+  return trimmed;
+};
+
+/**
+ * Rewrite JSON-like text into valid JSON syntax, one pass outside of strings
+ */
+const normalizeSyntax = (text: string, repairs: Set<string>): string => {
+  const open: string[] = [];
+  let output = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      const string = readString(text, i, repairs);
+      output += string.json;
+      i = string.end;
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      open.push(char === '{' ? '}' : ']');
+      output += char;
+    } else if (char === '}' || char === ']') {
+      output = dropTrailingComma(output, repairs);
+      if (open[open.length - 1] === char) open.pop();
+      output += char;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = /^[A-Za-z_$][\w$-]*/.exec(text.slice(i))![0];
+      const rest = text.slice(i + word.length);
+      if (open[open.length - 1] === '}' && /^\s*:/.test(rest)) {
+        repairs.add('unquoted keys');
+        output += JSON.stringify(word);
+      } else if (word in PYTHON_LITERALS) {
+        repairs.add('Python literals');
+        output += PYTHON_LITERALS[word];
+      } else {
+        output += word;
+      }
+      i += word.length;
+      continue;
+    } else {
+      output += char;
+    }
+    i++;
+  }
+
+  if (open.length > 0) {
+    output = dropTrailingComma(output, repairs);
+    repairs.add('unclosed brackets');
+    output += open.reverse().join('');
+  }
+
+  return output;
+};
+
+/**
+ * Parse JSON, repairing common syntax mistakes when plain parsing fails
+ * Returns null when the text cannot be turned into JSON
+ */
+export const repairJson = (text: string): JsonRepairResult | null => {
+  const direct = tryParse(text);
+  if (direct) return { value: direct.value, repairs: [] };
+
+  const fixes: string[] = [];
+  let candidate = text.trim();
+
+  const fenced = /^```[\w-]*\s*\n?([\s\S]*?)\n?\s*```$/.exec(candidate);
+  if (fenced) {
+    fixes.push('code fence');
+    candidate = fenced[1].trim();
+  }
+
+  // Prose around the JSON is only cut when the text as a whole cannot be repaired
+  const candidates = [{ text: candidate, fixes }];
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start >= 0 && end > start && (start > 0 || end < candidate.length - 1)) {
+    candidates.push({ text: candidate.slice(start, end + 1), fixes: [...fixes, 'surrounding text'] });
+  }
+
+  for (const attempt of candidates) {
+    const repairs = new Set(attempt.fixes);
+    const parsed = tryParse(attempt.text) ?? tryParse(normalizeSyntax(attempt.text, repairs));
+    if (parsed) return { value: parsed.value, repairs: [...repairs] };
+  }
+  return null;
+};
@@ -0,0 +1,157 @@
+/**
+ * Minimal JSON Schema validator
+ * Covers the subset used by OpenAI structured outputs and tool parameters:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * string/number/array bounds, pattern, anyOf/oneOf/allOf and local $ref
+ */
+
+type JsonSchema = Record<string, any>;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+};
+
+const resolveRef = (ref: string, root: JsonSchema): JsonSchema | undefined => {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .reduce<any>((node, segment) => node?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+};
+
+const validateNode = (value: unknown, schema: unknown, root: JsonSchema, path: string, errors: string[]): void => {
+  if (schema === true || schema === undefined || schema === null) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  if (typeof schema !== 'object') return;
+
+  const node = schema as JsonSchema;
+
+  if (typeof node.$ref === 'string') {
+    const target = resolveRef(node.$ref, root);
+    if (!target) {
+      errors.push(`${path}: unresolved $ref ${node.$ref}`);
+      return;
+    }
+    validateNode(value, target, root, path, errors);
+  }
+
+  if (node.type !== undefined) {
+    const types: string[] = Array.isArray(node.type) ? node.type : [node.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(node.enum) && !node.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${node.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if ('const' in node && JSON.stringify(node.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(node.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof node.minLength === 'number' && value.length < node.minLength) {
+      errors.push(`${path}: must be at least ${node.minLength} characters`);
+    }
+    if (typeof node.maxLength === 'number' && value.length > node.maxLength) {
+      errors.push(`${path}: must be at most ${node.maxLength} characters`);
+    }
+    if (typeof node.pattern === 'string') {
+      try {
+        if (!new RegExp(node.pattern, 'u').test(value)) {
+          errors.push(`${path}: must match pattern ${node.pattern}`);
+        }
+      } catch {
+        // Patterns JavaScript cannot compile are not enforced
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof node.minimum === 'number' && value < node.minimum) {
+      errors.push(`${path}: must be >= ${node.minimum}`);
+    }
+    if (typeof node.maximum === 'number' && value > node.maximum) {
+      errors.push(`${path}: must be <= ${node.maximum}`);
+    }
+    if (typeof node.exclusiveMinimum === 'number' && value <= node.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${node.exclusiveMinimum}`);
+    }
+    if (typeof node.exclusiveMaximum === 'number' && value >= node.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${node.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof node.minItems === 'number' && value.length < node.minItems) {
+      errors.push(`${path}: must have at least ${node.minItems} items`);
+    }
+    if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+      errors.push(`${path}: must have at most ${node.maxItems} items`);
+    }
+    if (node.items !== undefined && !Array.isArray(node.items)) {
+      value.forEach((item, i) => validateNode(item, node.items, root, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties: JsonSchema = node.properties || {};
+
+    for (const key of Array.isArray(node.required) ? node.required : []) {
+      if (!(key in obj)) {
+        errors.push(`${path}: missing required property '${key}'`);
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (key in properties) {
+        validateNode(propValue, properties[key], root, `${path}.${key}`, errors);
+      } else if (node.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        validateNode(propValue, node.additionalProperties, root, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(node.allOf)) {
+    node.allOf.forEach((sub: unknown) => validateNode(value, sub, root, path, errors));
+  }
+
+  if (Array.isArray(node.anyOf)) {
+    const matches = node.anyOf.some((sub: unknown) => validateJsonSchema(value, sub, root).length === 0);
+    if (!matches) errors.push(`${path}: does not match any of the allowed schemas`);
+  }
+
+  if (Array.isArray(node.oneOf)) {
+    const matchCount = node.oneOf.filter((sub: unknown) => validateJsonSchema(value, sub, root).length === 0).length;
+    if (matchCount !== 1) errors.push(`${path}: must match exactly one of the allowed schemas (matched ${matchCount})`);
+  }
+};
+
+/**
+ * Validate a value against a JSON Schema
+ * Returns a list of human readable errors, empty when the value is valid
+ */
+export const validateJsonSchema = (value: unknown, schema: unknown, root?: JsonSchema): string[] => {
+  const errors: string[] = [];
+  const rootSchema = root ?? (schema && typeof schema === 'object' ? schema as JsonSchema : {});
+  validateNode(value, schema, rootSchema, '$', errors);
+  return errors;
+};
@@ -27,12 +27,13 @@ export const logChatRequest = (requestId: string, input: any) => {
   console.log(`🔵 CHAT REQUEST: ${requestId} - logged to ${CHAT_LOG_FILE}`);
 };
 
-export const logChatResponse = (requestId: string, output: any, isStreaming: boolean = false) => {
+export const logChatResponse = (requestId: string, output: any, isStreaming: boolean = false, metadata?: Record<string, unknown>) => {
   ensureLogsDir();
   const logEntry = {
     timestamp: formatTimestamp(),
     type: isStreaming ? 'STREAMING_RESPONSE' : 'RESPONSE',
     requestId,
+    ...(metadata && { metadata }),
     output
   };
   
@@ -72,6 +73,66 @@ export const logStreamingComplete = (requestId: string, summary: any) => {
   console.log(`✅ STREAMING COMPLETE: ${requestId} - logged to ${CHAT_LOG_FILE}`);
 };
 
+export const logCancelled = (requestId: string, summary: any) => {
+  ensureLogsDir();
+  const logEntry = {
+    timestamp: formatTimestamp(),
+    type: 'CANCELLED',
+    requestId,
+    summary
+  };
+  
+  const logLine = JSON.stringify(logEntry, null, 2) + '\n' + '='.repeat(80) + '\n';
+  appendFileSync(CHAT_LOG_FILE, logLine);
+  
+  console.log(`🛑 CHAT CANCELLED: ${requestId} - logged to ${CHAT_LOG_FILE}`);
+};
+
+export const logToolCallValidation = (requestId: string, details: any) => {
+  ensureLogsDir();
+  const logEntry = {
+    timestamp: formatTimestamp(),
+    type: 'TOOL_CALL_VALIDATION',
+    requestId,
+    details
+  };
+  
+  const logLine = JSON.stringify(logEntry, null, 2) + '\n' + '-'.repeat(40) + '\n';
+  appendFileSync(CHAT_LOG_FILE, logLine);
+  
+  console.log(`🔧 TOOL CALL ${String(details.decision).toUpperCase()}: ${requestId} - logged to ${CHAT_LOG_FILE}`);
+};
+
+export const logSchemaValidation = (requestId: string, details: any) => {
+  ensureLogsDir();
+  const logEntry = {
+    timestamp: formatTimestamp(),
+    type: 'SCHEMA_VALIDATION',
+    requestId,
+    details
+  };
+  
+  const logLine = JSON.stringify(logEntry, null, 2) + '\n' + '-'.repeat(40) + '\n';
+  appendFileSync(CHAT_LOG_FILE, logLine);
+  
+  console.log(`📐 SCHEMA VALIDATION FAILED: ${requestId} - logged to ${CHAT_LOG_FILE}`);
+};
+
+export const logContextTrim = (requestId: string, summary: any) => {
+  ensureLogsDir();
+  const logEntry = {
+    timestamp: formatTimestamp(),
+    type: 'CONTEXT_TRIM',
+    requestId,
+    summary
+  };
+  
+  const logLine = JSON.stringify(logEntry, null, 2) + '\n' + '-'.repeat(40) + '\n';
+  appendFileSync(CHAT_LOG_FILE, logLine);
+  
+  console.log(`✂️ CONTEXT TRIMMED: ${requestId} - logged to ${CHAT_LOG_FILE}`);
+};
+
 export const logStreamingChunk = (requestId: string, chunk: any, chunkIndex: number) => {
   ensureLogsDir();
   const logEntry = {
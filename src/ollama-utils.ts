@@ -1,5 +1,5 @@
 import { REMOTE_MODELS } from './config';
-import type { OllamaRequest } from './types';
+import type { OllamaRequest, OpenAIFinishReason } from './types';
 
 export const isRemoteModel = (model: string): boolean => {
   return REMOTE_MODELS.includes(model);
@@ -19,4 +19,15 @@ export const extractModelFromRequest = async (req: Request): Promise<string | nu
 export const extractDigestFromPath = (pathname: string): string | null => {
   const match = pathname.match(/^\/api\/blobs\/(.+)$/);
   return match ? match[1] : null;
-};
\ No newline at end of file
+};
+
+/**
+ * Map Ollama's done_reason to an OpenAI finish_reason
+ * "load" and "unload" come from keep-alive requests that generate nothing,
+ * so like any unknown reason they are reported as a normal stop
+ */
+export const mapDoneReason = (doneReason: string | undefined, hasToolCalls = false): OpenAIFinishReason => {
+  if (hasToolCalls) return 'tool_calls';
+  if (doneReason === 'length') return 'length';
+  return 'stop';
+};
@@ -5,6 +5,7 @@
 
 import { OLLAMA_HOST, OLLAMA_API_KEY, LOCAL_OLLAMA_HOST } from '../config';
 import { HTTP_STATUS } from '../constants';
+import { isAbortError } from '../errors';
 
 /**
  * Forward request to Ollama (local or remote)
@@ -33,6 +34,7 @@ export async function forwardOllamaRequest(
     let forwardOptions: RequestInit = {
       method: req.method,
       headers: headers,
+      signal: req.signal,
     };
 
     if (['POST', 'PUT', 'PATCH'].includes(req.method)) {
@@ -56,6 +58,10 @@ export async function forwardOllamaRequest(
       headers: responseHeaders,
     });
   } catch (error) {
+    if (isAbortError(error)) {
+      console.log(`[${new Date().toISOString()}] Client disconnected, cancelled ${targetUrl}`);
+      return new Response(null, { status: 499 });
+    }
     console.error(`Error forwarding to ${targetHost}:`, error);
     return new Response(JSON.stringify({
       error: `Failed to connect to ${useAuth ? 'remote' : 'local'} Ollama: ${(error as Error).message}`
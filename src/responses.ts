@@ -0,0 +1,784 @@
+/**
+ * OpenAI Responses API (/v1/responses)
+ * Translates Responses input items into chat messages, runs them through the
+ * same conversion and OllamaClient.chatCompletion path as /v1/chat/completions,
+ * and returns output items plus the semantic streaming events
+ */
+
+import { validateAuth } from './auth';
+import {
+  applyRequestTools,
+  buildUsage,
+  describeToolCallFailure,
+  generateChoice,
+  isStrictJsonSchema,
+  logToolCallCheck,
+  retryInvalidToolCalls,
+  type GeneratedChoice
+} from './chat';
+import { TOOL_CALL_VALIDATION } from './config';
+import { createErrorResponse, generateRequestId, isAbortError } from './errors';
+import { applyContextLimit, withContextTrimHeader } from './context';
+import { attachMessageImages, hasImageContent } from './images';
+import { logCancelled, logChatRequest, logChatResponse, logError, logStreamingComplete, logStreamingStart } from './logger';
+import { getModelService, getOllamaClient } from './services/container';
+import { checkToolCalls, convertFromOllamaToolCalls, requiresToolCall, type ToolCallCheck } from './tools';
+import { usesToolEmulation } from './tool-emulation';
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaOptions,
+  OllamaToolCall,
+  OpenAIChatRequest,
+  OpenAIErrorResponse,
+  OpenAIMessage,
+  OpenAIReasoningEffort,
+  OpenAIToolCall,
+  OpenAIUsage
+} from './types';
+import { convertToOllamaMessages } from './utils';
+import { createApiHeaders, createStreamHeaders } from './utils/headers';
+import { SSE_KEEP_ALIVE_COMMENT, startHeartbeat, type Heartbeat } from './utils/heartbeat';
+import { validateModel, validateParameters, validateToolChoice } from './validation';
+
+type ResponsesContentPart =
+  | { type: 'input_text' | 'output_text' | 'text'; text: string }
+  | { type: 'input_image'; image_url?: string; detail?: string };
+
+type ResponsesInputItem =
+  | { type?: 'message'; role: 'user' | 'assistant' | 'system' | 'developer'; content: string | ResponsesContentPart[] }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string; id?: string }
+  | { type: 'function_call_output'; call_id: string; output: string }
+  | { type: 'reasoning'; [key: string]: unknown };
+
+export interface ResponsesFunctionTool {
+  type: 'function';
+  name: string;
+  description?: string;
+  parameters?: unknown;
+  strict?: boolean;
+}
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  tools?: ResponsesFunctionTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+  parallel_tool_calls?: boolean;
+  reasoning?: { effort?: OpenAIReasoningEffort };
+  text?: {
+    format?: { type: 'text' } | { type: 'json_object' } | { type: 'json_schema'; name: string; schema: unknown; strict?: boolean };
+  };
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  stream?: boolean;
+  previous_response_id?: string;
+  metadata?: Record<string, string>;
+  user?: string;
+}
+
+export type ResponsesOutputItem =
+  | { type: 'reasoning'; id: string; summary: unknown[]; content: Array<{ type: 'reasoning_text'; text: string }> }
+  | {
+      type: 'message';
+      id: string;
+      status: 'in_progress' | 'completed';
+      role: 'assistant';
+      content: Array<{ type: 'output_text'; text: string; annotations: unknown[] }>;
+    }
+  | { type: 'function_call'; id: string; call_id: string; name: string; arguments: string; status: 'in_progress' | 'completed' };
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  input_tokens_details: { cached_tokens: number };
+  output_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+  total_tokens: number;
+}
+
+export interface ResponsesResponse {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete' | 'failed';
+  model: string;
+  output: ResponsesOutputItem[];
+  instructions: string | null;
+  tools: ResponsesFunctionTool[];
+  tool_choice: ResponsesRequest['tool_choice'];
+  parallel_tool_calls: boolean;
+  reasoning: { effort: OpenAIReasoningEffort | null };
+  text: NonNullable<ResponsesRequest['text']>;
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  incomplete_details: { reason: 'max_output_tokens' } | null;
+  error: { code: string; message: string } | null;
+  metadata: Record<string, string>;
+  usage: ResponsesUsage | null;
+}
+
+const createItemId = (prefix: string) => `${prefix}_${Math.random().toString(36).substring(2, 15)}`;
+
+const convertContentParts = (content: string | ResponsesContentPart[]): OpenAIMessage['content'] => {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'input_image'
+    ? { type: 'image_url', image_url: { url: part.image_url } }
+    : { type: 'text', text: part.text });
+};
+
+/**
+ * Convert Responses input (a string or items) into chat messages
+ * Consecutive function_call items become one assistant turn with tool_calls
+ */
+export const convertResponsesInput = (input: ResponsesRequest['input'], instructions?: string): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [];
+  if (instructions) {
+    messages.push({ role: 'system', content: instructions });
+  }
+
+  if (typeof input === 'string') {
+    messages.push({ role: 'user', content: input });
+    return messages;
+  }
+
+  for (const item of input) {
+    if (item.type === 'function_call') {
+      const toolCall: OpenAIToolCall = {
+        id: item.call_id,
+        type: 'function',
+        function: { name: item.name, arguments: item.arguments }
+      };
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'assistant' && previous.tool_calls) {
+        previous.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+      }
+    } else if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+    } else if (item.type === 'reasoning') {
+      // Reasoning from earlier turns is not replayed to the model
+      continue;
+    } else {
+      messages.push({
+        role: item.role === 'developer' ? 'system' : item.role,
+        content: convertContentParts(item.content)
+      });
+    }
+  }
+
+  return messages;
+};
+
+/**
+ * The chat completions form of a Responses request, so tool_choice,
+ * parallel_tool_calls and strict json_schema go through the same checks and retries
+ */
+export const toChatRequest = (body: ResponsesRequest, messages: OpenAIMessage[]): OpenAIChatRequest => {
+  const format = body.text?.format;
+  return {
+    model: body.model,
+    messages,
+    tools: body.tools?.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    })),
+    tool_choice: typeof body.tool_choice === 'object'
+      ? { type: 'function', function: { name: body.tool_choice.name } }
+      : body.tool_choice,
+    parallel_tool_calls: body.parallel_tool_calls,
+    ...(format?.type === 'json_object' && { response_format: { type: 'json_object' } }),
+    ...(format?.type === 'json_schema' && {
+      response_format: { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: format.strict } }
+    })
+  };
+};
+
+/**
+ * Checked output can only be sent once it is complete, live deltas would show what gets rejected
+ */
+const completesBeforeStreaming = (ollamaRequest: OllamaChatRequest, chatRequest: OpenAIChatRequest): boolean =>
+  isStrictJsonSchema(chatRequest) || requiresToolCall(chatRequest) || usesToolEmulation(ollamaRequest, chatRequest);
+
+const toResponsesUsage = (usage: OpenAIUsage): ResponsesUsage => ({
+  input_tokens: usage.prompt_tokens,
+  input_tokens_details: { cached_tokens: 0 },
+  output_tokens: usage.completion_tokens,
+  output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens || 0 },
+  total_tokens: usage.total_tokens
+});
+
+const createResponseObject = (id: string, createdAt: number, body: ResponsesRequest): ResponsesResponse => ({
+  id,
+  object: 'response',
+  created_at: createdAt,
+  status: 'in_progress',
+  model: body.model,
+  output: [],
+  instructions: body.instructions ?? null,
+  tools: body.tools || [],
+  tool_choice: body.tool_choice ?? 'auto',
+  parallel_tool_calls: body.parallel_tool_calls ?? true,
+  reasoning: { effort: body.reasoning?.effort ?? null },
+  text: body.text || { format: { type: 'text' } },
+  temperature: body.temperature ?? null,
+  top_p: body.top_p ?? null,
+  max_output_tokens: body.max_output_tokens ?? null,
+  incomplete_details: null,
+  error: null,
+  metadata: body.metadata || {},
+  usage: null
+});
+
+const finalizeResponseObject = (response: ResponsesResponse, doneReason: string | undefined, usage: ResponsesUsage) => {
+  const truncated = doneReason === 'length';
+  response.status = truncated ? 'incomplete' : 'completed';
+  response.incomplete_details = truncated ? { reason: 'max_output_tokens' } : null;
+  response.usage = usage;
+};
+
+export const handleResponses = async (req: Request): Promise<Response> => {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    const body = await req.json() as ResponsesRequest;
+
+    logChatRequest(requestId, {
+      endpoint: '/v1/responses',
+      model: body.model,
+      input: body.input,
+      instructions: body.instructions,
+      stream: body.stream,
+      tools: body.tools,
+      reasoning: body.reasoning,
+      text: body.text,
+      user: body.user
+    });
+
+    if (!body.model) {
+      return createErrorResponse('Missing required parameter: model', 'invalid_request_error', 400, 'model');
+    }
+
+    if (body.input === undefined || body.input === null || (Array.isArray(body.input) && body.input.length === 0)) {
+      return createErrorResponse('Missing required parameter: input', 'invalid_request_error', 400, 'input');
+    }
+
+    if (body.previous_response_id) {
+      return createErrorResponse(
+        'previous_response_id is not supported, send the full conversation in input',
+        'invalid_request_error',
+        400,
+        'previous_response_id'
+      );
+    }
+
+    const unsupportedTool = (body.tools || []).find(tool => tool.type !== 'function');
+    if (unsupportedTool) {
+      return createErrorResponse(
+        `Tool type '${unsupportedTool.type}' is not supported, only function tools are available`,
+        'invalid_request_error',
+        400,
+        'tools'
+      );
+    }
+
+    if (typeof body.tool_choice === 'object' && (body.tool_choice?.type !== 'function' || typeof body.tool_choice.name !== 'string')) {
+      return createErrorResponse(
+        'Tool_choice must be none, auto, required or {"type": "function", "name": ...}',
+        'invalid_request_error',
+        400,
+        'tool_choice'
+      );
+    }
+
+    const paramValidation = validateParameters({
+      temperature: body.temperature,
+      top_p: body.top_p,
+      max_tokens: body.max_output_tokens,
+      reasoning_effort: body.reasoning?.effort
+    });
+    if (paramValidation) return paramValidation;
+
+    const modelService = getModelService();
+    const modelsResponse = await modelService.getOpenAIModels();
+    if (!validateModel(body.model, modelsResponse.data.map((m) => m.id))) {
+      return createErrorResponse(
+        `The model '${body.model}' does not exist`,
+        'invalid_request_error',
+        404,
+        'model'
+      );
+    }
+
+    const messages = convertResponsesInput(body.input, body.instructions);
+    const chatRequest = toChatRequest(body, messages);
+
+    const toolChoiceValidation = validateToolChoice(chatRequest);
+    if (toolChoiceValidation) return toolChoiceValidation;
+
+    const ollamaMessages = convertToOllamaMessages(messages);
+
+    if (hasImageContent(messages)) {
+      const capabilities = await modelService.getModelCapabilities(body.model);
+      if (capabilities && !capabilities.includes('vision')) {
+        return createErrorResponse(
+          `The model '${body.model}' does not support image inputs`,
+          'invalid_request_error',
+          400,
+          'input',
+          'model_not_vision_capable'
+        );
+      }
+
+      const imageError = await attachMessageImages(messages, ollamaMessages);
+      if (imageError) return imageError;
+    }
+
+    const options: OllamaOptions = {};
+    if (body.temperature !== undefined) options.temperature = body.temperature;
+    if (body.top_p !== undefined) options.top_p = body.top_p;
+    if (body.max_output_tokens !== undefined) options.num_predict = body.max_output_tokens;
+
+    const ollamaRequest: OllamaChatRequest = {
+      model: body.model,
+      messages: ollamaMessages,
+      stream: !!body.stream
+    };
+
+    if (Object.keys(options).length > 0) {
+      ollamaRequest.options = options;
+    }
+
+    await applyRequestTools(ollamaRequest, chatRequest);
+
+    if (body.reasoning?.effort) {
+      ollamaRequest.think = body.reasoning.effort;
+    }
+
+    const format = body.text?.format;
+    if (format?.type === 'json_object') {
+      ollamaRequest.format = 'json';
+    } else if (format?.type === 'json_schema' && format.schema) {
+      ollamaRequest.format = format.schema as Record<string, unknown>;
+    }
+
+    const contextTrim = await applyContextLimit(ollamaRequest, requestId);
+    if (contextTrim instanceof Response) return contextTrim;
+
+    if (body.stream) {
+      return withContextTrimHeader(await handleStreamingResponses(ollamaRequest, body, chatRequest, requestId, req.signal), contextTrim);
+    }
+
+    return withContextTrimHeader(await handleNonStreamingResponses(ollamaRequest, body, chatRequest, requestId, req.signal), contextTrim);
+  } catch (error) {
+    logError(requestId, error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
+
+/**
+ * Add a generated chat choice to the response as reasoning, message and function_call items
+ */
+const appendGeneratedOutput = (response: ResponsesResponse, generated: GeneratedChoice) => {
+  const { message } = generated.choice;
+  const content = typeof message.content === 'string' ? message.content : '';
+  const toolCalls = message.tool_calls || [];
+
+  if (message.reasoning_content) {
+    response.output.push({
+      type: 'reasoning',
+      id: createItemId('rs'),
+      summary: [],
+      content: [{ type: 'reasoning_text', text: message.reasoning_content }]
+    });
+  }
+
+  if (content || toolCalls.length === 0) {
+    response.output.push({
+      type: 'message',
+      id: createItemId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: content, annotations: [] }]
+    });
+  }
+
+  for (const toolCall of toolCalls) {
+    response.output.push({
+      type: 'function_call',
+      id: createItemId('fc'),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: 'completed'
+    });
+  }
+};
+
+export const handleNonStreamingResponses = async (
+  ollamaRequest: OllamaChatRequest,
+  body: ResponsesRequest,
+  chatRequest: OpenAIChatRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  try {
+    const generated = await generateChoice({ ...ollamaRequest, stream: false }, body.model, chatRequest, requestId, 0, signal);
+    if (generated instanceof Response) return generated;
+
+    const result = createResponseObject(createItemId('resp'), Math.floor(Date.now() / 1000), body);
+    appendGeneratedOutput(result, generated);
+    finalizeResponseObject(result, generated.doneReason, toResponsesUsage(generated.usage));
+    logChatResponse(requestId, result, false, { doneReason: generated.doneReason });
+
+    return new Response(JSON.stringify(result), {
+      headers: createApiHeaders(requestId)
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      logCancelled(requestId, { model: body.model, stream: false, reason: 'client disconnected' });
+      return createErrorResponse('Client closed request', 'invalid_request_error', 499);
+    }
+    logError(requestId, error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
+
+export const handleStreamingResponses = async (
+  ollamaRequest: OllamaChatRequest,
+  body: ResponsesRequest,
+  chatRequest: OpenAIChatRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const result = createResponseObject(createItemId('resp'), Math.floor(Date.now() / 1000), body);
+  const streamingStartTime = Date.now();
+  const upstreamAbort = new AbortController();
+  let sequenceNumber = 0;
+  let reasoning = '';
+  let cancelled = false;
+  let heartbeat: Heartbeat | undefined;
+
+  signal?.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
+  const cancelStream = (reason: string) => {
+    if (cancelled) return;
+    cancelled = true;
+    heartbeat?.stop();
+    upstreamAbort.abort();
+    logCancelled(requestId, { responseId: result.id, model: body.model, output: result.output, reason });
+  };
+
+  logStreamingStart(requestId, body.model);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let controllerClosed = false;
+      // The output item currently receiving deltas (reasoning or message)
+      let openItem: { item: ResponsesOutputItem; text: string } | null = null;
+
+      // Heartbeats are SSE comments so they take no sequence number, they also cover replayed generations
+      heartbeat = startHeartbeat(() => {
+        if (controllerClosed) return;
+        try {
+          controller.enqueue(encoder.encode(SSE_KEEP_ALIVE_COMMENT));
+        } catch (error) {
+          controllerClosed = true;
+        }
+      });
+
+      const writeEvent = (type: string, data: Record<string, unknown>) => {
+        if (controllerClosed) return;
+        try {
+          const event = { type, sequence_number: sequenceNumber++, ...data };
+          controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(event)}\n\n`));
+          heartbeat?.touch();
+        } catch (error) {
+          controllerClosed = true;
+          console.warn('Controller closed, stopping writes');
+        }
+      };
+
+      const snapshot = () => JSON.parse(JSON.stringify(result));
+
+      const closeOpenItem = () => {
+        if (!openItem) return;
+        const { item, text } = openItem;
+        const outputIndex = result.output.indexOf(item);
+
+        if (item.type === 'reasoning') {
+          item.content = [{ type: 'reasoning_text', text }];
+          writeEvent('response.reasoning_text.done', { item_id: item.id, output_index: outputIndex, content_index: 0, text });
+        } else if (item.type === 'message') {
+          const part = { type: 'output_text' as const, text, annotations: [] };
+          item.content = [part];
+          item.status = 'completed';
+          writeEvent('response.output_text.done', { item_id: item.id, output_index: outputIndex, content_index: 0, text });
+          writeEvent('response.content_part.done', { item_id: item.id, output_index: outputIndex, content_index: 0, part });
+        }
+
+        writeEvent('response.output_item.done', { output_index: outputIndex, item });
+        openItem = null;
+      };
+
+      const appendDelta = (kind: 'reasoning' | 'message', delta: string) => {
+        if (openItem?.item.type !== kind) {
+          closeOpenItem();
+          const item: ResponsesOutputItem = kind === 'reasoning'
+            ? { type: 'reasoning', id: createItemId('rs'), summary: [], content: [] }
+            : { type: 'message', id: createItemId('msg'), status: 'in_progress', role: 'assistant', content: [] };
+          result.output.push(item);
+          openItem = { item, text: '' };
+
+          const outputIndex = result.output.length - 1;
+          writeEvent('response.output_item.added', { output_index: outputIndex, item });
+          if (kind === 'message') {
+            writeEvent('response.content_part.added', {
+              item_id: item.id,
+              output_index: outputIndex,
+              content_index: 0,
+              part: { type: 'output_text', text: '', annotations: [] }
+            });
+          }
+        }
+
+        const current = openItem!;
+        current.text += delta;
+        writeEvent(kind === 'reasoning' ? 'response.reasoning_text.delta' : 'response.output_text.delta', {
+          item_id: current.item.id,
+          output_index: result.output.indexOf(current.item),
+          content_index: 0,
+          delta
+        });
+      };
+
+      const writeFunctionCall = (toolCall: OpenAIToolCall) => {
+        closeOpenItem();
+        const item: ResponsesOutputItem = {
+          type: 'function_call',
+          id: createItemId('fc'),
+          call_id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: '',
+          status: 'in_progress'
+        };
+        result.output.push(item);
+        const outputIndex = result.output.length - 1;
+
+        writeEvent('response.output_item.added', { output_index: outputIndex, item: { ...item } });
+        writeEvent('response.function_call_arguments.delta', {
+          item_id: item.id,
+          output_index: outputIndex,
+          delta: toolCall.function.arguments
+        });
+        item.arguments = toolCall.function.arguments;
+        item.status = 'completed';
+        writeEvent('response.function_call_arguments.done', {
+          item_id: item.id,
+          output_index: outputIndex,
+          arguments: item.arguments
+        });
+        writeEvent('response.output_item.done', { output_index: outputIndex, item });
+      };
+
+      let finalData: OllamaChatResponse | undefined;
+      let doneReason: string | undefined;
+      let content = '';
+      const functionCalls: OpenAIToolCall[] = [];
+      const validateToolCalls = TOOL_CALL_VALIDATION && !!chatRequest.tools?.length;
+      let rejectedToolCalls: ToolCallCheck | undefined;
+
+      const writeFunctionCalls = (toolCalls: OllamaToolCall[]) => {
+        for (const toolCall of convertFromOllamaToolCalls(toolCalls)) {
+          if (body.parallel_tool_calls === false && functionCalls.length > 0) continue;
+          functionCalls.push(toolCall);
+          writeFunctionCall(toolCall);
+        }
+      };
+
+      const processOllamaData = (ollamaData: OllamaChatResponse) => {
+        if (ollamaData.message?.thinking) {
+          reasoning += ollamaData.message.thinking;
+          appendDelta('reasoning', ollamaData.message.thinking);
+        }
+        if (ollamaData.message?.content) {
+          content += ollamaData.message.content;
+          appendDelta('message', ollamaData.message.content);
+        }
+        let toolCalls = ollamaData.message?.tool_calls || [];
+        if (validateToolCalls && toolCalls.length > 0) {
+          // Valid calls go out right away, rejected ones are re-asked once the generation is done
+          const check = logToolCallCheck(requestId, body.model, 1, checkToolCalls(toolCalls, chatRequest.tools!));
+          if (check.errors.length > 0) {
+            const rejected = rejectedToolCalls ??= { valid: [], invalid: [], errors: [], repairs: [] };
+            rejected.invalid.push(...check.invalid);
+            rejected.errors.push(...check.errors);
+          }
+          toolCalls = check.valid;
+        }
+        writeFunctionCalls(toolCalls);
+        if (ollamaData.done) {
+          finalData = ollamaData;
+        }
+      };
+
+      const failResponse = (code: string, message: string) => {
+        closeOpenItem();
+        result.status = 'failed';
+        result.error = { code, message };
+        writeEvent('response.failed', { response: snapshot() });
+      };
+
+      // Output that is checked and possibly re-asked is generated in full, then sent as the same events
+      const replayGeneration = async () => {
+        const generated = await generateChoice({ ...ollamaRequest, stream: false }, body.model, chatRequest, requestId, 0, upstreamAbort.signal);
+        if (generated instanceof Response) {
+          const { error } = await generated.json() as OpenAIErrorResponse;
+          failResponse(error.code || 'server_error', error.message);
+          return;
+        }
+
+        const { message } = generated.choice;
+        reasoning = message.reasoning_content || '';
+        if (reasoning) appendDelta('reasoning', reasoning);
+        if (typeof message.content === 'string' && message.content) appendDelta('message', message.content);
+        (message.tool_calls || []).forEach(writeFunctionCall);
+
+        closeOpenItem();
+        doneReason = generated.doneReason;
+        finalizeResponseObject(result, doneReason, toResponsesUsage(generated.usage));
+        writeEvent(result.status === 'incomplete' ? 'response.incomplete' : 'response.completed', { response: snapshot() });
+      };
+
+      const streamFromUpstream = async () => {
+        const ollamaClient = getOllamaClient();
+        const response = await ollamaClient.chatCompletion(body.model, ollamaRequest.messages, {
+          ...ollamaRequest,
+          stream: true
+        }, upstreamAbort.signal);
+
+        if (!response.ok || !response.body) {
+          const errorText = await response.text();
+          console.error(`Ollama error ${response.status}:`, errorText);
+          throw new Error(`Ollama request failed: ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+          while (!finalData && !controllerClosed) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+              if (!line.trim()) continue;
+              try {
+                processOllamaData(JSON.parse(line));
+              } catch (parseError) {
+                console.error('JSON parse error:', parseError, 'Line:', line);
+              }
+            }
+          }
+
+          if (buffer.trim() && !finalData) {
+            try {
+              processOllamaData(JSON.parse(buffer.trim()));
+            } catch (parseError) {
+              console.error('Final buffer parse error:', parseError);
+            }
+          }
+        } finally {
+          reader.releaseLock();
+        }
+
+        if (rejectedToolCalls && !controllerClosed) {
+          const retried = await retryInvalidToolCalls(
+            rejectedToolCalls, ollamaRequest, body.model, chatRequest.tools!, requestId, content, upstreamAbort.signal
+          );
+          if (retried.errors.length > 0) {
+            failResponse('tool_call_validation_failed', describeToolCallFailure(retried.errors));
+            return;
+          }
+          writeFunctionCalls(retried.valid);
+        }
+
+        closeOpenItem();
+        doneReason = finalData?.done_reason;
+        const usage = buildUsage(finalData ?? { model: body.model, done: true }, ollamaRequest, {
+          content,
+          reasoning,
+          toolCalls: functionCalls
+        });
+        finalizeResponseObject(result, doneReason, toResponsesUsage(usage));
+        writeEvent(result.status === 'incomplete' ? 'response.incomplete' : 'response.completed', { response: snapshot() });
+      };
+
+      writeEvent('response.created', { response: snapshot() });
+      writeEvent('response.in_progress', { response: snapshot() });
+
+      try {
+        await (completesBeforeStreaming(ollamaRequest, chatRequest) ? replayGeneration() : streamFromUpstream());
+      } catch (error) {
+        if (isAbortError(error) || cancelled) {
+          cancelStream('client disconnected');
+          controllerClosed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream may already be cancelled
+          }
+          return;
+        }
+        logError(requestId, error);
+        result.status = 'failed';
+        result.error = { code: 'server_error', message: (error as Error).message || 'Internal streaming error' };
+        writeEvent('response.failed', { response: snapshot() });
+      }
+
+      heartbeat.stop();
+      if (!controllerClosed) {
+        controller.close();
+        controllerClosed = true;
+        logStreamingComplete(requestId, {
+          responseId: result.id,
+          model: body.model,
+          status: result.status,
+          output: result.output,
+          doneReason,
+          durationMs: Date.now() - streamingStartTime
+        });
+      }
+    },
+    cancel() {
+      console.log('Stream cancelled by client');
+      cancelStream('stream cancelled by client');
+    }
+  });
+
+  return new Response(stream, {
+    headers: createStreamHeaders(requestId)
+  });
+};
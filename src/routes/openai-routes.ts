@@ -4,10 +4,13 @@
  */
 
 import { handleChatCompletions } from '../chat';
+import { handleCompletions } from '../completions';
 import { handleModels } from '../models';
-import { handleEmbeddings } from '../embeddings';
-import { createErrorResponse } from '../errors';
-import { API_PATHS, HTTP_STATUS, ERROR_MESSAGES } from '../constants';
+import { handleEmbeddingCacheStats, handleEmbeddings } from '../embeddings';
+import { handleResponses } from '../responses';
+import { handleMessages } from '../anthropic';
+import { handleDetokenize, handleTokenize } from '../tokenize';
+import { API_PATHS } from '../constants';
 
 /**
  * Route OpenAI API requests to appropriate handlers
@@ -23,13 +26,9 @@ export async function handleOpenAIRoute(req: Request, pathname: string): Promise
     return handleChatCompletions(req);
   }
 
-  // Legacy completions endpoint
+  // Legacy completions endpoint (with fill-in-the-middle)
   if (pathname === API_PATHS.OPENAI_COMPLETIONS && req.method === 'POST') {
-    return createErrorResponse(
-      'Completions endpoint is not supported. Please use /v1/chat/completions instead.',
-      'invalid_request_error',
-      HTTP_STATUS.BAD_REQUEST
-    );
+    return handleCompletions(req);
   }
 
   // Embeddings endpoint
@@ -37,6 +36,29 @@ export async function handleOpenAIRoute(req: Request, pathname: string): Promise
     return handleEmbeddings(req);
   }
 
+  if (pathname === API_PATHS.OPENAI_EMBEDDINGS_CACHE && req.method === 'GET') {
+    return handleEmbeddingCacheStats(req);
+  }
+
+  // Responses endpoint
+  if (pathname === API_PATHS.OPENAI_RESPONSES && req.method === 'POST') {
+    return handleResponses(req);
+  }
+
+  // Anthropic Messages endpoint
+  if (pathname === API_PATHS.ANTHROPIC_MESSAGES && req.method === 'POST') {
+    return handleMessages(req);
+  }
+
+  // Tokenizer endpoints
+  if (pathname === API_PATHS.OPENAI_TOKENIZE && req.method === 'POST') {
+    return handleTokenize(req);
+  }
+
+  if (pathname === API_PATHS.OPENAI_DETOKENIZE && req.method === 'POST') {
+    return handleDetokenize(req);
+  }
+
   // OpenAI API root
   if (pathname === API_PATHS.OPENAI_BASE + '/' && req.method === 'GET') {
     return new Response(JSON.stringify({
@@ -45,7 +67,13 @@ export async function handleOpenAIRoute(req: Request, pathname: string): Promise
       endpoints: [
         'GET /v1/models',
         'POST /v1/chat/completions',
+        'POST /v1/completions',
         'POST /v1/embeddings',
+        'GET /v1/embeddings/cache',
+        'POST /v1/responses',
+        'POST /v1/messages',
+        'POST /v1/tokenize',
+        'POST /v1/detokenize',
       ]
     }), {
       headers: { 'Content-Type': 'application/json' }
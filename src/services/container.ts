@@ -6,10 +6,14 @@
 
 import { OllamaClient } from '../clients/ollama-client';
 import { ModelService } from './model-service';
+import { ResponseCache } from './response-cache';
+import { EmbeddingCache } from './embedding-cache';
 
 // Singleton instances - created once, used everywhere
 let ollamaClientInstance: OllamaClient | null = null;
 let modelServiceInstance: ModelService | null = null;
+let responseCacheInstance: ResponseCache | null = null;
+let embeddingCacheInstance: EmbeddingCache | null = null;
 
 /**
  * Get singleton OllamaClient instance
@@ -31,12 +35,34 @@ export function getModelService(): ModelService {
   return modelServiceInstance;
 }
 
+/**
+ * Get singleton ResponseCache instance
+ */
+export function getResponseCache(): ResponseCache {
+  if (!responseCacheInstance) {
+    responseCacheInstance = new ResponseCache();
+  }
+  return responseCacheInstance;
+}
+
+/**
+ * Get singleton EmbeddingCache instance
+ */
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!embeddingCacheInstance) {
+    embeddingCacheInstance = new EmbeddingCache();
+  }
+  return embeddingCacheInstance;
+}
+
 /**
  * Service container object for easy destructuring
  */
 export const services = {
   get ollamaClient() { return getOllamaClient(); },
-  get modelService() { return getModelService(); }
+  get modelService() { return getModelService(); },
+  get responseCache() { return getResponseCache(); },
+  get embeddingCache() { return getEmbeddingCache(); }
 };
 
 /**
@@ -45,4 +71,6 @@ export const services = {
 export function resetServices(): void {
   ollamaClientInstance = null;
   modelServiceInstance = null;
+  responseCacheInstance = null;
+  embeddingCacheInstance = null;
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+/**
+ * Persistent embedding cache
+ * Embeddings are stored in SQLite keyed by model, model digest and a hash of
+ * the input text, so re-indexing only embeds the chunks that changed. Entries
+ * of an older digest are dropped once /api/tags reports a new one for the model
+ */
+
+import { Database } from 'bun:sqlite';
+import { createHash } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { EMBED_CACHE_ENABLED, EMBED_CACHE_MAX_MB, EMBED_CACHE_PATH } from '../config';
+
+export interface CachedEmbedding {
+  embedding: number[];
+  /** Prompt tokens billed when the input was embedded, null for entries cached before counts were kept */
+  tokens: number | null;
+}
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  path: string;
+  entries: number;
+  bytes: number;
+  max_bytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+}
+
+// Rows examined per eviction round
+const EVICTION_BATCH = 256;
+
+const hashText = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+// Float64 keeps cached vectors identical to the ones Ollama returned
+const encodeVector = (embedding: number[]): Uint8Array => new Uint8Array(new Float64Array(embedding).buffer);
+
+const decodeVector = (blob: Uint8Array): number[] => Array.from(new Float64Array(blob.slice().buffer));
+
+export class EmbeddingCache {
+  private db: Database | null = null;
+  private knownDigests = new Map<string, string>();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(
+    private enabled = EMBED_CACHE_ENABLED,
+    private path = EMBED_CACHE_PATH,
+    private maxBytes = EMBED_CACHE_MAX_MB * 1024 * 1024
+  ) {}
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Cached embeddings in input order, undefined where nothing is cached
+   */
+  getMany(model: string, digest: string, texts: string[]): Array<CachedEmbedding | undefined> {
+    const db = this.open();
+    if (!db) return texts.map(() => undefined);
+    this.syncDigest(db, model, digest);
+
+    const select = db.query('SELECT embedding, tokens FROM embeddings WHERE model = ? AND digest = ? AND text_hash = ?');
+    const touch = db.query('UPDATE embeddings SET last_used_at = ? WHERE model = ? AND digest = ? AND text_hash = ?');
+    const now = Date.now();
+
+    return db.transaction(() => texts.map(text => {
+      const textHash = hashText(text);
+      const row = select.get(model, digest, textHash) as { embedding: Uint8Array; tokens: number | null } | null;
+      if (!row) {
+        this.misses++;
+        return undefined;
+      }
+      this.hits++;
+      touch.run(now, model, digest, textHash);
+      return { embedding: decodeVector(row.embedding), tokens: row.tokens };
+    }))();
+  }
+
+  setMany(model: string, digest: string, entries: Array<{ text: string; embedding: number[]; tokens: number }>): void {
+    const db = this.open();
+    if (!db || entries.length === 0) return;
+
+    const insert = db.query(
+      'INSERT OR IGNORE INTO embeddings (model, digest, text_hash, embedding, tokens, bytes, last_used_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const now = Date.now();
+
+    db.transaction(() => {
+      for (const { text, embedding, tokens } of entries) {
+        const blob = encodeVector(embedding);
+        const result = insert.run(model, digest, hashText(text), blob, tokens, blob.byteLength, now);
+        if (result.changes > 0) this.totalBytes += blob.byteLength;
+      }
+    })();
+
+    this.evict(db);
+  }
+
+  stats(): EmbeddingCacheStats {
+    const db = this.open();
+    const entries = db
+      ? (db.query('SELECT COUNT(*) AS count FROM embeddings').get() as { count: number }).count
+      : 0;
+    return {
+      enabled: this.enabled,
+      path: this.path,
+      entries,
+      bytes: this.totalBytes,
+      max_bytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations
+    };
+  }
+
+  clear(): void {
+    const db = this.open();
+    if (!db) return;
+    db.exec('DELETE FROM embeddings');
+    this.totalBytes = 0;
+    this.knownDigests.clear();
+  }
+
+  private open(): Database | null {
+    if (!this.enabled) return null;
+    if (this.db) return this.db;
+
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const db = new Database(this.path, { create: true });
+      db.exec('PRAGMA journal_mode = WAL');
+      db.exec(`CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        digest TEXT NOT NULL,
+        text_hash TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        tokens INTEGER,
+        bytes INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (model, digest, text_hash)
+      )`);
+      // Caches created before token counts were stored get the column added
+      const columns = db.query('PRAGMA table_info(embeddings)').all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'tokens')) {
+        db.exec('ALTER TABLE embeddings ADD COLUMN tokens INTEGER');
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS embeddings_last_used_at ON embeddings (last_used_at)');
+      this.totalBytes = this.storedBytes(db);
+      this.db = db;
+      return db;
+    } catch (error) {
+      console.warn('Embedding cache disabled, could not open', this.path, (error as Error).message);
+      this.enabled = false;
+      return null;
+    }
+  }
+
+  private storedBytes(db: Database): number {
+    return (db.query('SELECT COALESCE(SUM(bytes), 0) AS bytes FROM embeddings').get() as { bytes: number }).bytes;
+  }
+
+  /**
+   * Drop entries of other digests the first time a model is seen with a digest
+   */
+  private syncDigest(db: Database, model: string, digest: string): void {
+    if (this.knownDigests.get(model) === digest) return;
+
+    const result = db.query('DELETE FROM embeddings WHERE model = ? AND digest != ?').run(model, digest);
+    if (result.changes > 0) {
+      console.log(`Embedding cache: ${model} changed digest, dropped ${result.changes} entries`);
+      this.invalidations += result.changes;
+      this.totalBytes = this.storedBytes(db);
+    }
+    this.knownDigests.set(model, digest);
+  }
+
+  /**
+   * Remove least recently used entries until the cache fits maxBytes
+   */
+  private evict(db: Database): void {
+    const oldest = db.query('SELECT rowid AS id, bytes FROM embeddings ORDER BY last_used_at LIMIT ?');
+    const remove = db.query('DELETE FROM embeddings WHERE rowid = ?');
+
+    while (this.totalBytes > this.maxBytes) {
+      const rows = oldest.all(EVICTION_BATCH) as Array<{ id: number; bytes: number }>;
+      if (rows.length === 0) break;
+
+      db.transaction(() => {
+        for (const row of rows) {
+          if (this.totalBytes <= this.maxBytes) break;
+          remove.run(row.id);
+          this.totalBytes -= row.bytes;
+          this.evictions++;
+        }
+      })();
+    }
+  }
+}
@@ -5,10 +5,19 @@
 
 import { OllamaClient } from '../clients/ollama-client';
 import { isRemoteModel } from '../ollama-utils';
-import type { OllamaModel, OllamaTagsResponse, ModelsList, ModelData } from '../types';
+import type { OllamaModel, OllamaTagsResponse, OllamaShowResponse, ModelsList, ModelData } from '../types';
+
+// How long a /api/tags listing is reused for digest lookups
+const TAGS_CACHE_TTL_MS = 30_000;
+// How long /api/show details are reused, a re-pulled model is picked up after this
+const MODEL_INFO_CACHE_TTL_MS = 5 * 60_000;
+// Failed /api/show lookups are remembered briefly so each request does not retry them
+const MODEL_INFO_FAILURE_TTL_MS = 30_000;
 
 export class ModelService {
   private client: OllamaClient;
+  private modelInfoCache = new Map<string, { info: OllamaShowResponse | null; expiresAt: number }>();
+  private tagsCache = new Map<'local' | 'remote', { models: Promise<OllamaModel[]>; fetchedAt: number }>();
 
   constructor() {
     this.client = new OllamaClient();
@@ -108,6 +117,79 @@ export class ModelService {
     return models.some(model => model.name === modelName);
   }
 
+  /**
+   * Get /api/show details for a model, cached per model name for MODEL_INFO_CACHE_TTL_MS
+   * Returns null when the upstream cannot describe the model
+   */
+  async getModelInfo(modelName: string): Promise<OllamaShowResponse | null> {
+    const cached = this.modelInfoCache.get(modelName);
+    if (cached && Date.now() < cached.expiresAt) return cached.info;
+
+    try {
+      const info: OllamaShowResponse = await this.client.showModel(modelName);
+      this.modelInfoCache.set(modelName, { info, expiresAt: Date.now() + MODEL_INFO_CACHE_TTL_MS });
+      return info;
+    } catch (error) {
+      console.warn(`Failed to fetch model info for ${modelName}:`, (error as Error).message);
+      this.modelInfoCache.set(modelName, { info: null, expiresAt: Date.now() + MODEL_INFO_FAILURE_TTL_MS });
+      return null;
+    }
+  }
+
+  /**
+   * Get the capabilities reported by /api/show (completion, vision, tools, ...)
+   * Returns null when they are unknown, so callers can stay permissive
+   */
+  async getModelCapabilities(modelName: string): Promise<string[] | null> {
+    const info = await this.getModelInfo(modelName);
+    return info?.capabilities ?? null;
+  }
+
+  /**
+   * Context length reported by /api/show (model_info "<arch>.context_length")
+   * Returns null when the model does not report one
+   */
+  async getContextLength(modelName: string): Promise<number | null> {
+    const info = await this.getModelInfo(modelName);
+    const entry = Object.entries(info?.model_info || {}).find(([key]) => key.endsWith('.context_length'));
+    return typeof entry?.[1] === 'number' && entry[1] > 0 ? entry[1] : null;
+  }
+
+  /**
+   * Digest reported by /api/tags, it changes whenever the model is pulled again
+   * Returns null when the model is not listed
+   */
+  async getModelDigest(modelName: string): Promise<string | null> {
+    const models = await this.getCachedTags(isRemoteModel(modelName) ? 'remote' : 'local');
+    const model = models.find(candidate => candidate.name === modelName || candidate.name === `${modelName}:latest`);
+    return model?.digest ?? null;
+  }
+
+  /**
+   * Native embedding size reported by /api/show (model_info "<arch>.embedding_length")
+   * Returns null when the model does not report one
+   */
+  async getEmbeddingLength(modelName: string): Promise<number | null> {
+    const info = await this.getModelInfo(modelName);
+    const entry = Object.entries(info?.model_info || {}).find(([key]) => key.endsWith('.embedding_length'));
+    return typeof entry?.[1] === 'number' && entry[1] > 0 ? entry[1] : null;
+  }
+
+  /**
+   * /api/tags listing of one source, reused for TAGS_CACHE_TTL_MS so per-request
+   * digest lookups do not each hit Ollama; concurrent lookups share one fetch
+   */
+  private async getCachedTags(source: 'local' | 'remote'): Promise<OllamaModel[]> {
+    const cached = this.tagsCache.get(source);
+    if (cached && Date.now() - cached.fetchedAt < TAGS_CACHE_TTL_MS) return cached.models;
+
+    const models = source === 'remote' ? this.getRemoteModels() : this.getLocalModels();
+    this.tagsCache.set(source, { models, fetchedAt: Date.now() });
+    const result = await models;
+    // An empty listing usually means Ollama was unreachable, ask again next time
+    if (result.length === 0) this.tagsCache.delete(source);
+    return result;
+  }
 
   /**
    * Remove duplicate models, preferring local over remote
@@ -0,0 +1,181 @@
+/**
+ * Exact-match response cache
+ * Deterministic chat requests (temperature 0 or a fixed seed) that are sent
+ * again are answered without another upstream generation. The optional disk
+ * directory mirrors the in-memory LRU, so it never holds more than maxEntries files
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { CHAT_CACHE_DIR, CHAT_CACHE_ENABLED, CHAT_CACHE_MAX_ENTRIES, CHAT_CACHE_TTL_SECONDS } from '../config';
+import type { OllamaChatRequest, OpenAIChatRequest, OpenAIChatResponse } from '../types';
+
+interface CacheEntry {
+  value: OpenAIChatResponse;
+  expiresAt: number;
+}
+
+// How often expired entries are removed from memory and disk
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * JSON with object keys sorted, so equal requests hash the same
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private maxEntries = CHAT_CACHE_MAX_ENTRIES,
+    private ttlMs = CHAT_CACHE_TTL_SECONDS * 1000,
+    private directory = CHAT_CACHE_DIR
+  ) {
+    if (this.directory) {
+      if (!existsSync(this.directory)) {
+        mkdirSync(this.directory, { recursive: true });
+      }
+      this.loadFromDisk();
+    }
+    // unref keeps the sweep timer from holding the process open
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Only requests that should produce the same output again are cached
+   */
+  isCacheable(request: OpenAIChatRequest): boolean {
+    return CHAT_CACHE_ENABLED && (request.temperature === 0 || request.seed !== undefined);
+  }
+
+  /**
+   * Hash of everything that shapes the generated output
+   * keep_alive only affects model residency and is left out
+   */
+  createKey(ollamaRequest: OllamaChatRequest, originalRequest: OpenAIChatRequest): string {
+    const { keep_alive, stream, ...generation } = ollamaRequest;
+    return createHash('sha256')
+      .update(stableStringify({
+        ...generation,
+        n: originalRequest.n ?? 1,
+        response_format: originalRequest.response_format,
+        tool_choice: originalRequest.tool_choice,
+        parallel_tool_calls: originalRequest.parallel_tool_calls
+      }))
+      .digest('hex');
+  }
+
+  get(key: string): OpenAIChatResponse | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: OpenAIChatResponse): void {
+    const entry: CacheEntry = { value, expiresAt: Date.now() + this.ttlMs };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+
+    if (this.directory) {
+      try {
+        writeFileSync(this.entryPath(key), JSON.stringify(entry));
+      } catch (error) {
+        console.warn('Failed to write response cache entry:', (error as Error).message);
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+    if (this.directory) {
+      rmSync(this.entryPath(key), { force: true });
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    if (this.directory) {
+      rmSync(this.directory, { recursive: true, force: true });
+      mkdirSync(this.directory, { recursive: true });
+    }
+  }
+
+  private entryPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  /**
+   * Drop expired entries from memory and disk
+   */
+  sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.delete(key);
+    }
+  }
+
+  private readEntry(path: string): CacheEntry | null {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry;
+    } catch (error) {
+      console.warn('Failed to read response cache entry:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Load entries kept by a previous run, most recently written last so they
+   * survive the LRU limit; expired, unreadable and overflowing files are removed
+   */
+  private loadFromDisk(): void {
+    const now = Date.now();
+    const files = readdirSync(this.directory)
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const path = join(this.directory, name);
+        try {
+          return { key: name.slice(0, -'.json'.length), path, writtenAt: statSync(path).mtimeMs };
+        } catch {
+          return null;
+        }
+      })
+      .filter((file): file is { key: string; path: string; writtenAt: number } => file !== null)
+      .sort((a, b) => a.writtenAt - b.writtenAt);
+
+    const overflow = Math.max(0, files.length - this.maxEntries);
+    files.slice(0, overflow).forEach(({ path }) => rmSync(path, { force: true }));
+
+    for (const { key, path } of files.slice(overflow)) {
+      const entry = this.readEntry(path);
+      if (entry && entry.expiresAt > now) {
+        this.entries.set(key, entry);
+      } else {
+        rmSync(path, { force: true });
+      }
+    }
+  }
+}
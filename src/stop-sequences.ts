@@ -0,0 +1,92 @@
+/**
+ * Proxy-side stop sequence enforcement
+ * Upstream models do not always honor `stop`, and a stop string can be split
+ * across two NDJSON chunks, so output is cut here as well
+ */
+
+export const normalizeStopSequences = (stop: string | string[] | undefined): string[] =>
+  (Array.isArray(stop) ? stop : stop !== undefined ? [stop] : []).filter(sequence => sequence.length > 0);
+
+/**
+ * Find the earliest stop sequence in text
+ */
+export const findStopSequence = (text: string, stops: string[]): { index: number; sequence: string } | null => {
+  let match: { index: number; sequence: string } | null = null;
+  for (const sequence of stops) {
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (match === null || index < match.index)) {
+      match = { index, sequence };
+    }
+  }
+  return match;
+};
+
+export interface StopSequenceResult {
+  text: string;
+  stopped: boolean;
+  /** The stop sequence that matched, when stopped */
+  sequence?: string;
+}
+
+/**
+ * Cut text at the first stop sequence, the sequence itself is not included
+ */
+export const truncateAtStopSequence = (text: string, stops: string[]): StopSequenceResult => {
+  const match = findStopSequence(text, stops);
+  return match ? { text: text.slice(0, match.index), stopped: true, sequence: match.sequence } : { text, stopped: false };
+};
+
+export interface StopSequenceFilter {
+  /** Feed a streamed delta, returns the text that is safe to emit */
+  push(delta: string): StopSequenceResult;
+  /** Release the held back tail once the stream ends without a match */
+  flush(): string;
+}
+
+/**
+ * Streaming stop sequence matcher
+ * Holds back the longest tail that could still be the start of a stop sequence
+ */
+export const createStopSequenceFilter = (stops: string[]): StopSequenceFilter => {
+  let pending = '';
+  let stopped = false;
+
+  const heldTailLength = (text: string): number => {
+    let held = 0;
+    for (const sequence of stops) {
+      for (let length = Math.min(sequence.length - 1, text.length); length > held; length--) {
+        if (text.endsWith(sequence.slice(0, length))) {
+          held = length;
+          break;
+        }
+      }
+    }
+    return held;
+  };
+
+  return {
+    push(delta: string) {
+      if (stopped) return { text: '', stopped: true };
+      if (stops.length === 0) return { text: delta, stopped: false };
+
+      pending += delta;
+      const match = findStopSequence(pending, stops);
+      if (match) {
+        stopped = true;
+        const text = pending.slice(0, match.index);
+        pending = '';
+        return { text, stopped: true, sequence: match.sequence };
+      }
+
+      const held = heldTailLength(pending);
+      const text = pending.slice(0, pending.length - held);
+      pending = pending.slice(pending.length - held);
+      return { text, stopped: false };
+    },
+    flush() {
+      const text = pending;
+      pending = '';
+      return text;
+    }
+  };
+};
@@ -0,0 +1,151 @@
+/**
+ * Token counting endpoints (/v1/tokenize, /v1/detokenize)
+ * Let clients budget prompts offline with the same tokenizer the proxy uses
+ * for context trimming and usage accounting
+ */
+
+import { validateAuth } from './auth';
+import { DEFAULT_CONTEXT_LENGTH } from './config';
+import { createErrorResponse, generateRequestId } from './errors';
+import { getModelService } from './services/container';
+import { convertToOllamaTools } from './tools';
+import { decodeTokens, encodeChatMessages, encodeText, isValidTokenId, TOKENIZER_NAME } from './tokenizer';
+import type { OpenAIMessage, OpenAITool } from './types';
+import { convertToOllamaMessages } from './utils';
+import { createApiHeaders } from './utils/headers';
+import { validateModel, validateRequest } from './validation';
+
+export interface TokenizeRequest {
+  model?: string;
+  prompt?: string;
+  messages?: OpenAIMessage[];
+  tools?: OpenAITool[];
+}
+
+export interface TokenizeResponse {
+  tokens: number[];
+  count: number;
+  max_model_len: number | null;
+  tokenizer: string;
+}
+
+export interface DetokenizeRequest {
+  model?: string;
+  tokens: number[];
+}
+
+/**
+ * Context length for the optional model, null when no model was given
+ */
+const resolveMaxModelLength = async (model: string | undefined): Promise<number | Response | null> => {
+  if (!model) return null;
+
+  const modelService = getModelService();
+  const modelsResponse = await modelService.getOpenAIModels();
+  if (!validateModel(model, modelsResponse.data.map((m) => m.id))) {
+    return createErrorResponse(`The model '${model}' does not exist`, 'invalid_request_error', 404, 'model');
+  }
+
+  return (await modelService.getContextLength(model)) ?? (DEFAULT_CONTEXT_LENGTH || null);
+};
+
+export const handleTokenize = async (req: Request): Promise<Response> => {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    const body = await req.json() as TokenizeRequest;
+
+    if ((body.prompt === undefined) === (body.messages === undefined)) {
+      return createErrorResponse(
+        'Provide exactly one of prompt or messages',
+        'invalid_request_error',
+        400,
+        body.prompt === undefined ? 'prompt' : 'messages'
+      );
+    }
+
+    if (body.prompt !== undefined && typeof body.prompt !== 'string') {
+      return createErrorResponse('Prompt must be a string', 'invalid_request_error', 400, 'prompt');
+    }
+
+    if (body.messages !== undefined) {
+      const messagesValidation = validateRequest({ model: body.model || TOKENIZER_NAME, messages: body.messages });
+      if (messagesValidation) return messagesValidation;
+    }
+
+    const maxModelLength = await resolveMaxModelLength(body.model);
+    if (maxModelLength instanceof Response) return maxModelLength;
+
+    let tokens: number[];
+    if (body.messages !== undefined) {
+      // Encoded exactly like context trimming counts the forwarded request,
+      // the tool definitions follow the messages
+      const ollamaMessages = convertToOllamaMessages(body.messages);
+      tokens = encodeChatMessages(ollamaMessages);
+      if (body.tools?.length) {
+        tokens = tokens.concat(encodeText(JSON.stringify(convertToOllamaTools(body.tools))));
+      }
+    } else {
+      tokens = encodeText(body.prompt as string);
+    }
+
+    const result: TokenizeResponse = {
+      tokens,
+      count: tokens.length,
+      max_model_len: maxModelLength,
+      tokenizer: TOKENIZER_NAME
+    };
+
+    return new Response(JSON.stringify(result), {
+      headers: createApiHeaders(requestId)
+    });
+  } catch (error) {
+    console.error('Tokenize error:', error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
+
+export const handleDetokenize = async (req: Request): Promise<Response> => {
+  const authValidation = validateAuth(req);
+  if (!authValidation.valid) {
+    return authValidation.error as Response;
+  }
+
+  const requestId = generateRequestId();
+
+  try {
+    const body = await req.json() as DetokenizeRequest;
+
+    if (!Array.isArray(body.tokens) || !body.tokens.every(isValidTokenId)) {
+      return createErrorResponse(
+        `Tokens must be an array of token ids from the ${TOKENIZER_NAME} vocabulary`,
+        'invalid_request_error',
+        400,
+        'tokens'
+      );
+    }
+
+    const maxModelLength = await resolveMaxModelLength(body.model);
+    if (maxModelLength instanceof Response) return maxModelLength;
+
+    return new Response(JSON.stringify({ prompt: decodeTokens(body.tokens), tokenizer: TOKENIZER_NAME }), {
+      headers: createApiHeaders(requestId)
+    });
+  } catch (error) {
+    console.error('Detokenize error:', error);
+    return createErrorResponse(
+      (error as Error).message || 'Internal server error',
+      'internal_server_error',
+      500
+    );
+  }
+};
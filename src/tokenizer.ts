@@ -0,0 +1,40 @@
+/**
+ * Offline gpt-oss tokenizer (o200k_harmony BPE)
+ * Used for usage accounting when Ollama leaves out eval counts, for context
+ * trimming, embeddings usage and the /v1/tokenize endpoints
+ */
+
+import { decode, encode, vocabularySize } from 'gpt-tokenizer/encoding/o200k_harmony';
+import type { OllamaChatMessage } from './types';
+
+export const TOKENIZER_NAME = 'o200k_harmony';
+export const TOKENIZER_VOCABULARY_SIZE = vocabularySize;
+
+// Special token text in user content is encoded as plain text, never as control tokens
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+export const encodeText = (text: string): number[] => encode(text, PLAIN_TEXT);
+
+export const countTokens = (text: string): number => (text ? encodeText(text).length : 0);
+
+export const decodeTokens = (tokens: number[]): string => decode(tokens);
+
+export const isValidTokenId = (token: unknown): token is number =>
+  Number.isInteger(token) && (token as number) >= 0 && (token as number) < TOKENIZER_VOCABULARY_SIZE;
+
+/**
+ * Encode chat messages the way the harmony template frames them:
+ * <|start|>{role}<|message|>{content}<|end|>
+ */
+export const encodeChatMessages = (messages: OllamaChatMessage[]): number[] =>
+  messages.flatMap(message => [
+    ...encode('<|start|>', { allowedSpecial: 'all' }),
+    ...encodeText(message.role),
+    ...encode('<|message|>', { allowedSpecial: 'all' }),
+    ...encodeText(
+      (message.thinking || '') +
+      (message.content || '') +
+      (message.tool_calls?.length ? JSON.stringify(message.tool_calls) : '')
+    ),
+    ...encode('<|end|>', { allowedSpecial: 'all' })
+  ]);
@@ -0,0 +1,150 @@
+/**
+ * Prompt-based tool calling for models without native tool support
+ * Tool schemas go into the system prompt, and <tool_call> blocks in the
+ * model output are parsed back into tool calls
+ */
+
+import { TOOL_EMULATION_TEMPLATE } from './config';
+import { repairJson } from './json-repair';
+import type { OllamaChatMessage, OllamaChatRequest, OllamaToolCall, OpenAIChatRequest, OpenAITool } from './types';
+import { appendSystemPrompt } from './utils';
+
+const OPEN_TAG = '<tool_call>';
+const CLOSE_TAG = '</tool_call>';
+
+export const DEFAULT_TOOL_EMULATION_TEMPLATE = `You have access to the following tools, described as JSON schemas:
+
+{{tools}}
+
+To call a tool, reply with one block per call in exactly this format:
+${OPEN_TAG}
+{"name": "<tool name>", "arguments": {<arguments as a JSON object>}}
+${CLOSE_TAG}
+Only call the tools listed above. Tool results are sent back in <tool_response> blocks.`;
+
+/**
+ * Emulated requests keep their tools on the OpenAI request but send none upstream
+ */
+export const usesToolEmulation = (ollamaRequest: OllamaChatRequest, originalRequest: OpenAIChatRequest): boolean =>
+  !!originalRequest.tools?.length && originalRequest.tool_choice !== 'none' && !ollamaRequest.tools;
+
+export const renderToolPrompt = (tools: OpenAITool[], template = TOOL_EMULATION_TEMPLATE || DEFAULT_TOOL_EMULATION_TEMPLATE): string =>
+  template.replace('{{tools}}', () => tools.map(tool => JSON.stringify({
+    name: tool.function.name,
+    ...(tool.function.description && { description: tool.function.description }),
+    parameters: tool.function.parameters ?? { type: 'object', properties: {} }
+  })).join('\n'));
+
+const formatToolCallBlock = (call: OllamaToolCall): string =>
+  `${OPEN_TAG}\n${JSON.stringify({ name: call.function.name, arguments: call.function.arguments })}\n${CLOSE_TAG}`;
+
+/**
+ * Rewrite messages for a model without tool support: the tool prompt is added
+ * to the system message, earlier tool calls and results become plain text
+ */
+export const applyToolEmulation = (messages: OllamaChatMessage[], tools: OpenAITool[]): OllamaChatMessage[] => {
+  const converted = messages.map((message): OllamaChatMessage => {
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const { tool_calls, ...rest } = message;
+      return { ...rest, content: [message.content, ...tool_calls.map(formatToolCallBlock)].filter(Boolean).join('\n') };
+    }
+    if (message.role === 'tool') {
+      const name = message.tool_name ? ` name="${message.tool_name}"` : '';
+      return { role: 'user', content: `<tool_response${name}>\n${message.content}\n</tool_response>` };
+    }
+    return message;
+  });
+
+  return appendSystemPrompt(converted, renderToolPrompt(tools));
+};
+
+/**
+ * Parse the JSON inside a <tool_call> block, null when it names no tool
+ */
+const parseToolCallBlock = (block: string): OllamaToolCall | null => {
+  const parsed = repairJson(block.trim());
+  const value = parsed?.value as Record<string, unknown> | undefined;
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string') return null;
+  // Broken argument text is passed on as is, tool call validation repairs or re-asks it
+  const args = value.arguments ?? value.parameters ?? {};
+  return { function: { name: value.name, arguments: args as Record<string, unknown> } };
+};
+
+// Longest tail of text that could be the start of the open tag
+const partialTagLength = (text: string): number => {
+  for (let length = Math.min(OPEN_TAG.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(OPEN_TAG.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+export interface EmulatedToolCallParser {
+  /** Feed a streamed delta, returns the plain text and the tool calls completed so far */
+  push(delta: string): { text: string; toolCalls: OllamaToolCall[] };
+  /** Release what is held back once the stream ends, an unclosed block is parsed as is */
+  flush(): { text: string; toolCalls: OllamaToolCall[] };
+}
+
+/**
+ * Streaming <tool_call> parser
+ * Text inside a block or that could start one is held back until it is complete
+ */
+export const createEmulatedToolCallParser = (): EmulatedToolCallParser => {
+  let pending = '';
+
+  const drain = (final: boolean) => {
+    let text = '';
+    const toolCalls: OllamaToolCall[] = [];
+
+    while (pending) {
+      const open = pending.indexOf(OPEN_TAG);
+      if (open === -1) {
+        const held = final ? 0 : partialTagLength(pending);
+        text += pending.slice(0, pending.length - held);
+        pending = pending.slice(pending.length - held);
+        break;
+      }
+
+      text += pending.slice(0, open);
+      const close = pending.indexOf(CLOSE_TAG, open + OPEN_TAG.length);
+      if (close === -1 && !final) {
+        pending = pending.slice(open);
+        break;
+      }
+
+      const end = close === -1 ? pending.length : close + CLOSE_TAG.length;
+      const call = parseToolCallBlock(pending.slice(open + OPEN_TAG.length, close === -1 ? pending.length : close));
+      if (call) {
+        toolCalls.push(call);
+      } else {
+        text += pending.slice(open, end);
+      }
+      pending = pending.slice(end);
+    }
+
+    return { text, toolCalls };
+  };
+
+  return {
+    push(delta: string) {
+      pending += delta;
+      return drain(false);
+    },
+    flush() {
+      return drain(true);
+    }
+  };
+};
+
+/**
+ * Split a complete model output into plain content and emulated tool calls
+ */
+export const parseEmulatedToolCalls = (content: string): { content: string; toolCalls: OllamaToolCall[] } => {
+  const parser = createEmulatedToolCallParser();
+  const pushed = parser.push(content);
+  const flushed = parser.flush();
+  return {
+    content: (pushed.text + flushed.text).trim(),
+    toolCalls: [...pushed.toolCalls, ...flushed.toolCalls]
+  };
+};
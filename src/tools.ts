@@ -0,0 +1,190 @@
+import { DEFAULTS } from './constants';
+import { generateToolCallId } from './errors';
+import { repairJson } from './json-repair';
+import { validateJsonSchema } from './json-schema';
+import type { OllamaTool, OllamaToolCall, OpenAIChatRequest, OpenAITool, OpenAIToolCall, OpenAIToolCallDelta } from './types';
+
+/**
+ * Translate OpenAI tool definitions into the shape Ollama expects on /api/chat
+ */
+export const convertToOllamaTools = (tools: OpenAITool[]): OllamaTool[] =>
+  tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.function.name,
+      ...(tool.function.description && { description: tool.function.description }),
+      parameters: tool.function.parameters ?? { type: 'object', properties: {} }
+    }
+  }));
+
+/**
+ * OpenAI requires function arguments as a JSON string, Ollama returns an object
+ */
+export const stringifyToolArguments = (args: unknown): string =>
+  typeof args === 'string' ? args : JSON.stringify(args ?? {});
+
+/**
+ * Parse OpenAI stringified function arguments back into the object Ollama expects
+ */
+export const parseToolArguments = (args: string | undefined): Record<string, unknown> => {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    console.warn('Could not parse tool call arguments, sending empty object:', args);
+    return {};
+  }
+};
+
+/**
+ * Function name forced by tool_choice, undefined unless a specific function is named
+ */
+export const getForcedToolName = (toolChoice: OpenAIChatRequest['tool_choice']): string | undefined =>
+  typeof toolChoice === 'object' ? toolChoice.function.name : undefined;
+
+/**
+ * Whether tool_choice demands a tool call, either any (required) or a named function
+ */
+export const requiresToolCall = (request: Pick<OpenAIChatRequest, 'tools' | 'tool_choice'>): boolean =>
+  !!request.tools?.length && (request.tool_choice === 'required' || typeof request.tool_choice === 'object');
+
+/**
+ * Tools offered to the model: none under tool_choice none, only the named function when one is forced
+ */
+export const selectTools = (tools: OpenAITool[], toolChoice: OpenAIChatRequest['tool_choice']): OpenAITool[] => {
+  if (toolChoice === 'none') return [];
+  const forced = getForcedToolName(toolChoice);
+  return forced ? tools.filter(tool => tool.function.name === forced) : tools;
+};
+
+/**
+ * System prompt instruction for a forced tool_choice, null when calls are optional
+ */
+export const createToolChoiceInstruction = (toolChoice: OpenAIChatRequest['tool_choice']): string | null => {
+  const forced = getForcedToolName(toolChoice);
+  if (forced) return `You must respond by calling the ${forced} tool.`;
+  return toolChoice === 'required' ? 'You must respond by calling one or more of the available tools.' : null;
+};
+
+/**
+ * Map OpenAI assistant tool_calls to Ollama message.tool_calls
+ */
+export const convertToOllamaToolCalls = (toolCalls: OpenAIToolCall[]): OllamaToolCall[] =>
+  toolCalls.map(call => ({
+    function: {
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments)
+    }
+  }));
+
+/**
+ * Map Ollama message.tool_calls to OpenAI tool_calls with generated call ids
+ */
+export const convertFromOllamaToolCalls = (toolCalls: OllamaToolCall[]): OpenAIToolCall[] =>
+  toolCalls.map(call => ({
+    id: generateToolCallId(),
+    type: 'function',
+    function: {
+      name: call.function.name,
+      arguments: stringifyToolArguments(call.function.arguments)
+    }
+  }));
+
+/**
+ * Split a complete tool call into OpenAI-style streaming deltas:
+ * the header (index, id, type, name) first, then the arguments in pieces
+ */
+export const createToolCallDeltas = (
+  toolCall: OpenAIToolCall,
+  index: number,
+  chunkSize: number = DEFAULTS.TOOL_ARGUMENTS_CHUNK_SIZE
+): OpenAIToolCallDelta[] => {
+  const deltas: OpenAIToolCallDelta[] = [{
+    index,
+    id: toolCall.id,
+    type: 'function',
+    function: { name: toolCall.function.name, arguments: '' }
+  }];
+
+  const args = toolCall.function.arguments;
+  for (let offset = 0; offset < args.length; offset += chunkSize) {
+    deltas.push({
+      index,
+      function: { arguments: args.slice(offset, offset + chunkSize) }
+    });
+  }
+
+  return deltas;
+};
+
+export interface ToolCallCheck {
+  /** Calls that match their tool, with arguments repaired and parsed */
+  valid: OllamaToolCall[];
+  invalid: OllamaToolCall[];
+  errors: string[];
+  repairs: string[];
+}
+
+/**
+ * Check tool calls against the declared tools and their parameters schema
+ * Arguments that arrive as broken JSON text are repaired where possible
+ */
+export const checkToolCalls = (toolCalls: OllamaToolCall[], tools: OpenAITool[]): ToolCallCheck => {
+  const check: ToolCallCheck = { valid: [], invalid: [], errors: [], repairs: [] };
+
+  for (const call of toolCalls) {
+    const name = call.function.name;
+    const tool = tools.find(candidate => candidate.function.name === name);
+    const reject = (errors: string[]) => {
+      check.invalid.push(call);
+      check.errors.push(...errors.map(error => `${name}: ${error}`));
+    };
+
+    if (!tool) {
+      reject([`unknown tool, available tools are ${tools.map(candidate => candidate.function.name).join(', ')}`]);
+      continue;
+    }
+
+    // Ollama normally parses arguments, raw text means the model wrote invalid JSON
+    let args: unknown = call.function.arguments ?? {};
+    if (typeof args === 'string') {
+      const repaired = args.trim() ? repairJson(args) : { value: {}, repairs: [] };
+      if (!repaired) {
+        reject(['arguments are not valid JSON']);
+        continue;
+      }
+      args = repaired.value;
+      check.repairs.push(...repaired.repairs.map(repair => `${name}: ${repair}`));
+    }
+
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      reject(['arguments must be a JSON object']);
+      continue;
+    }
+
+    const schemaErrors = tool.function.parameters ? validateJsonSchema(args, tool.function.parameters) : [];
+    if (schemaErrors.length > 0) {
+      reject(schemaErrors);
+      continue;
+    }
+
+    check.valid.push({ function: { ...call.function, arguments: args as Record<string, unknown> } });
+  }
+
+  return check;
+};
+
+/**
+ * Message asking the model to call its tools again after a failed check
+ * The rejected calls are quoted since their arguments may not be valid JSON
+ */
+export const createToolCallFeedback = (check: ToolCallCheck): string => [
+  ...(check.invalid.length > 0 ? [
+    'Your tool calls could not be used:',
+    ...check.invalid.map(call => `${call.function.name}(${stringifyToolArguments(call.function.arguments)})`)
+  ] : []),
+  'Errors:',
+  ...check.errors.map(error => `- ${error}`),
+  'Call the tools again with arguments that are a single JSON object matching their parameters schema.'
+].join('\n');
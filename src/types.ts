@@ -13,6 +13,7 @@ export interface OpenAIMessage {
   name?: string;
   tool_calls?: OpenAIToolCall[];
   tool_call_id?: string;
+  reasoning_content?: string;
 }
 
 export interface OpenAITool {
@@ -33,6 +34,8 @@ export interface OpenAIResponseFormat {
   };
 }
 
+export type OpenAIReasoningEffort = 'low' | 'medium' | 'high';
+
 export interface OpenAIChatRequest {
   model: string;
   messages: OpenAIMessage[];
@@ -42,6 +45,9 @@ export interface OpenAIChatRequest {
   frequency_penalty?: number;
   presence_penalty?: number;
   stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
   stop?: string | string[];
   n?: number;
   logit_bias?: Record<string, number>;
@@ -53,12 +59,17 @@ export interface OpenAIChatRequest {
   parallel_tool_calls?: boolean;
   response_format?: OpenAIResponseFormat;
   seed?: number;
+  reasoning_effort?: OpenAIReasoningEffort;
+  think?: boolean;
+  options?: OllamaPassthroughOptions;
 }
 
+export type OpenAIFinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls';
+
 export interface OpenAIChoice {
   index: number;
   message: OpenAIMessage;
-  finish_reason: 'stop' | 'length' | 'content_filter' | 'tool_calls' | null;
+  finish_reason: OpenAIFinishReason | null;
   logprobs?: {
     content?: Array<{
       token: string;
@@ -73,39 +84,44 @@ export interface OpenAIChoice {
   } | null;
 }
 
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: {
+    reasoning_tokens: number;
+  };
+}
+
 export interface OpenAIChatResponse {
   id: string;
   object: 'chat.completion';
   created: number;
   model: string;
   choices: OpenAIChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-    completion_tokens_details?: {
-      reasoning_tokens: number;
-    };
-  };
+  usage: OpenAIUsage;
   system_fingerprint?: string;
 }
 
+export interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface OpenAIStreamChoice {
   index: number;
   delta: {
     content?: string;
+    reasoning_content?: string;
     role?: string;
-    tool_calls?: Array<{
-      index?: number;
-      id?: string;
-      type?: 'function';
-      function?: {
-        name?: string;
-        arguments?: string;
-      };
-    }>;
+    tool_calls?: OpenAIToolCallDelta[];
   };
-  finish_reason: 'stop' | 'length' | 'content_filter' | 'tool_calls' | null;
+  finish_reason: OpenAIFinishReason | null;
   logprobs?: {
     content?: Array<{
       token: string;
@@ -127,11 +143,45 @@ export interface OpenAIStreamChunk {
   model: string;
   choices: OpenAIStreamChoice[];
   system_fingerprint?: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  usage?: OpenAIUsage;
+}
+
+export interface OpenAICompletionRequest {
+  model: string;
+  prompt: string | string[];
+  suffix?: string;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
   };
+  stop?: string | string[];
+  echo?: boolean;
+  n?: number;
+  seed?: number;
+  user?: string;
+  options?: OllamaPassthroughOptions;
+}
+
+export interface OpenAICompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: OpenAIFinishReason | null;
+}
+
+export interface OpenAICompletionResponse {
+  id: string;
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: OpenAICompletionChoice[];
+  system_fingerprint?: string;
+  usage?: OpenAIUsage;
 }
 
 export interface OpenAIError {
@@ -161,11 +211,49 @@ export interface OllamaOptions {
   frequency_penalty?: number;
   presence_penalty?: number;
   stop?: string[];
+  seed?: number;
+  num_ctx?: number;
+  top_k?: number;
+  min_p?: number;
+  repeat_penalty?: number;
+  repeat_last_n?: number;
+  mirostat?: number;
+  mirostat_eta?: number;
+  mirostat_tau?: number;
+}
+
+// Ollama-native settings accepted on the OpenAI endpoint through `options`
+export type OllamaPassthroughOptions = Pick<
+  OllamaOptions,
+  'num_ctx' | 'top_k' | 'min_p' | 'repeat_penalty' | 'repeat_last_n' | 'mirostat' | 'mirostat_eta' | 'mirostat_tau'
+> & {
+  keep_alive?: string | number;
+};
+
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: unknown;
+  };
+}
+
+export interface OllamaToolCall {
+  function: {
+    index?: number;
+    name: string;
+    arguments: Record<string, unknown>;
+  };
 }
 
 export interface OllamaChatMessage {
   role: string;
   content: string;
+  thinking?: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
 }
 
 export interface OllamaChatRequest {
@@ -173,7 +261,43 @@ export interface OllamaChatRequest {
   messages: OllamaChatMessage[];
   stream?: boolean;
   options?: OllamaOptions;
-  format?: 'json';
+  format?: 'json' | Record<string, unknown>;
+  tools?: OllamaTool[];
+  think?: boolean | OpenAIReasoningEffort;
+  keep_alive?: string | number;
+}
+
+export interface OllamaChatResponse {
+  model: string;
+  created_at?: string;
+  message?: OllamaChatMessage;
+  done: boolean;
+  done_reason?: string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+export interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  suffix?: string;
+  stream?: boolean;
+  options?: OllamaOptions;
+  keep_alive?: string | number;
+}
+
+export interface OllamaGenerateResponse {
+  model: string;
+  created_at?: string;
+  response: string;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
 export interface ModelData {
@@ -214,6 +338,16 @@ export interface OllamaModel {
   _source?: 'local' | 'remote';
 }
 
+export interface OllamaShowResponse {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  details?: OllamaModel['details'];
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+  modified_at?: string;
+}
+
 export interface OllamaTagsResponse {
   models: OllamaModel[];
 }
@@ -1,9 +1,14 @@
 import { serve } from 'bun';
 import { handleChatCompletions } from './chat';
+import { handleCompletions } from './completions';
 import { KNOWN_ENDPOINTS, loadEnvFile, OLLAMA_API_KEY, PORT, LOCAL_OLLAMA_HOST, OLLAMA_HOST, REMOTE_MODELS, OLLAMA_STREAM } from './config';
-import { createErrorResponse, generateRequestId } from './errors';
+import { generateRequestId, isAbortError } from './errors';
+import { logCancelled } from './logger';
 import { handleModels } from './models';
-import { handleEmbeddings } from './embeddings';
+import { handleEmbeddingCacheStats, handleEmbeddings } from './embeddings';
+import { handleResponses } from './responses';
+import { handleMessages } from './anthropic';
+import { handleDetokenize, handleTokenize } from './tokenize';
 import { createCorsHeaders } from './utils/headers';
 import { OllamaClient } from './clients/ollama-client';
 import { ModelService } from './services/model-service';
@@ -39,7 +44,8 @@ const forwardOllamaRequest = async (req: Request, targetHost: string, useAuth: b
     headers.set('Authorization', `Bearer ${OLLAMA_API_KEY}`);
   }
 
-  console.log(`[${new Date().toISOString()}] Ollama ${req.method} ${targetUrl.href} (${useAuth ? 'remote' : 'local'})`);
+  const requestId = generateRequestId();
+  console.log(`[${new Date().toISOString()}] Ollama ${req.method} ${targetUrl.href} (${useAuth ? 'remote' : 'local'}) ${requestId}`);
 
   let requestBody: BodyInit | null = req.body;
 
@@ -61,15 +67,31 @@ const forwardOllamaRequest = async (req: Request, targetHost: string, useAuth: b
     }
   }
 
+  // Tie the upstream request to the client connection so a disconnect
+  // stops generation instead of running on and using up Turbo quota
+  const onClientAbort = () => {
+    console.log(`[${new Date().toISOString()}] Client disconnected, cancelled ${req.method} ${url.pathname} (${useAuth ? 'remote' : 'local'}) ${requestId}`);
+    logCancelled(requestId, {
+      path: url.pathname,
+      target: useAuth ? 'remote' : 'local',
+      reason: 'client disconnected'
+    });
+  };
+  // A disconnect after the response has been relayed is not a cancellation
+  const stopWatchingClient = () => req.signal.removeEventListener('abort', onClientAbort);
+  req.signal.addEventListener('abort', onClientAbort, { once: true });
+
   try {
     const response = await fetch(targetUrl.href, {
       method: req.method,
       headers,
       body: requestBody,
+      signal: req.signal,
     });
 
     if (!response.ok && useAuth) {
       const errorText = await response.text();
+      stopWatchingClient();
       return new Response(JSON.stringify({
         error: `Remote authentication failed: ${response.status} ${response.statusText}`,
         details: errorText
@@ -82,13 +104,21 @@ const forwardOllamaRequest = async (req: Request, targetHost: string, useAuth: b
     // Return response with original headers (but update host back)
     const responseHeaders = new Headers(response.headers);
     responseHeaders.delete('host');
+    responseHeaders.set('x-request-id', requestId);
     
-    return new Response(response.body, {
+    const body = response.body?.pipeThrough(new TransformStream({ flush: stopWatchingClient })) ?? null;
+    if (!body) stopWatchingClient();
+
+    return new Response(body, {
       status: response.status,
       statusText: response.statusText,
       headers: responseHeaders,
     });
   } catch (error) {
+    if (isAbortError(error)) {
+      return new Response(null, { status: 499 });
+    }
+    stopWatchingClient();
     console.error(`Error forwarding to ${targetHost}:`, error);
     return new Response(JSON.stringify({
       error: `Failed to connect to ${useAuth ? 'remote' : 'local'} Ollama: ${(error as Error).message}`
@@ -175,13 +205,18 @@ const handleOllamaVersion = async (): Promise<Response> => {
     proxy: 'gpt-oss-120b-max-unified-server',
     local_ollama: localVersion,
     remote_ollama: remoteVersion,
-    supported_apis: ['OpenAI v1', 'Ollama'],
+    supported_apis: ['OpenAI v1', 'Anthropic Messages', 'Ollama'],
     supported_endpoints: [
       // OpenAI endpoints
       'POST /v1/chat/completions',
       'GET /v1/models',
       'POST /v1/completions',
       'POST /v1/embeddings',
+      'GET /v1/embeddings/cache',
+      'POST /v1/responses',
+      'POST /v1/messages',
+      'POST /v1/tokenize',
+      'POST /v1/detokenize',
       // Ollama endpoints
       'POST /api/generate',
       'POST /api/chat',
@@ -238,17 +273,33 @@ const server = serve({
       }
 
       if (url.pathname === '/v1/completions' && req.method === 'POST') {
-        return createErrorResponse(
-          'The Completions API is deprecated. Please use /v1/chat/completions instead.',
-          'invalid_request_error',
-          400
-        );
+        return handleCompletions(req);
       }
 
       if (url.pathname === '/v1/embeddings' && req.method === 'POST') {
         return handleEmbeddings(req);
       }
 
+      if (url.pathname === '/v1/embeddings/cache' && req.method === 'GET') {
+        return handleEmbeddingCacheStats(req);
+      }
+
+      if (url.pathname === '/v1/responses' && req.method === 'POST') {
+        return handleResponses(req);
+      }
+
+      if (url.pathname === '/v1/messages' && req.method === 'POST') {
+        return handleMessages(req);
+      }
+
+      if (url.pathname === '/v1/tokenize' && req.method === 'POST') {
+        return handleTokenize(req);
+      }
+
+      if (url.pathname === '/v1/detokenize' && req.method === 'POST') {
+        return handleDetokenize(req);
+      }
+
       // OpenAI API root
       if (url.pathname === '/v1/' && req.method === 'GET') {
         return new Response(JSON.stringify({
@@ -1,4 +1,6 @@
 import type { OpenAIMessage, OllamaChatMessage } from './types';
+import { convertToOllamaToolCalls } from './tools';
+import { countTokens } from './tokenizer';
 
 export const convertContentToString = (
   content: string | Array<{ type: string; text?: string; image_url?: unknown } | undefined> | null | undefined
@@ -11,10 +13,48 @@ export const convertContentToString = (
   return '';
 };
 
-export const convertToOllamaMessages = (messages: OpenAIMessage[]): OllamaChatMessage[] =>
-  messages.map(msg => ({
-    role: msg.role,
-    content: convertContentToString(msg.content)
-  }));
+/**
+ * Ollama only reports a single eval_count, so the reasoning share is counted locally
+ */
+export const countReasoningTokens = (reasoning: string, evalCount?: number): number => {
+  const count = countTokens(reasoning);
+  return evalCount ? Math.min(count, evalCount) : count;
+};
+
+export const convertToOllamaMessages = (messages: OpenAIMessage[]): OllamaChatMessage[] => {
+  // Tool results only carry tool_call_id, Ollama wants the tool name instead
+  const toolNamesById = new Map<string, string>();
+  for (const msg of messages) {
+    for (const call of msg.tool_calls || []) {
+      toolNamesById.set(call.id, call.function.name);
+    }
+  }
+
+  return messages.map(msg => {
+    const ollamaMessage: OllamaChatMessage = {
+      role: msg.role,
+      content: convertContentToString(msg.content)
+    };
+
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      ollamaMessage.tool_calls = convertToOllamaToolCalls(msg.tool_calls);
+    }
+
+    if (msg.role === 'tool') {
+      const toolName = (msg.tool_call_id && toolNamesById.get(msg.tool_call_id)) || msg.name;
+      if (toolName) ollamaMessage.tool_name = toolName;
+    }
+
+    return ollamaMessage;
+  });
+};
+
+/**
+ * Add text to the leading system message, or insert one when there is none
+ */
+export const appendSystemPrompt = (messages: OllamaChatMessage[], text: string): OllamaChatMessage[] =>
+  messages[0]?.role === 'system'
+    ? [{ ...messages[0], content: `${messages[0].content}\n\n${text}` }, ...messages.slice(1)]
+    : [{ role: 'system', content: text }, ...messages];
 
 
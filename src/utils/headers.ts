@@ -7,7 +7,7 @@
 export const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, DELETE, HEAD, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Organization',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Organization, x-api-key, anthropic-version, anthropic-beta',
 } as const;
 
 // Rate limiting headers - consistent across all responses
@@ -34,6 +34,18 @@ export function createApiHeaders(requestId: string, contentType = 'application/j
   };
 }
 
+/**
+ * Create Server-Sent Events response headers with request ID
+ */
+export function createStreamHeaders(requestId: string): Record<string, string> {
+  return {
+    ...createApiHeaders(requestId, 'text/event-stream'),
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  };
+}
+
 /**
  * Create CORS-only headers for preflight responses
  */
@@ -0,0 +1,51 @@
+/**
+ * SSE heartbeat utility
+ * Keeps streaming connections alive while no tokens are flowing, e.g. during a
+ * long reasoning phase, so clients and reverse proxies do not drop them
+ */
+
+import { SSE_HEARTBEAT_INTERVAL_MS } from '../config';
+
+export interface Heartbeat {
+  /** Record that real data was written, postponing the next heartbeat */
+  touch(): void;
+  stop(): void;
+}
+
+// SSE comment line, ignored by compliant clients
+export const SSE_KEEP_ALIVE_COMMENT = ': keep-alive\n\n';
+
+/**
+ * Call send whenever nothing was written for intervalMs
+ * An interval of 0 disables heartbeats
+ */
+export function startHeartbeat(send: () => void, intervalMs = SSE_HEARTBEAT_INTERVAL_MS): Heartbeat {
+  let lastWrite = Date.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = intervalMs <= 0;
+
+  const schedule = () => {
+    timer = setTimeout(tick, Math.max(0, lastWrite + intervalMs - Date.now()));
+  };
+
+  const tick = () => {
+    if (stopped) return;
+    if (Date.now() - lastWrite >= intervalMs) {
+      send();
+      lastWrite = Date.now();
+    }
+    schedule();
+  };
+
+  if (!stopped) schedule();
+
+  return {
+    touch() {
+      lastWrite = Date.now();
+    },
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
@@ -1,6 +1,8 @@
-import type { OpenAIChatRequest } from './types';
+import type { OpenAIChatRequest, OpenAICompletionRequest } from './types';
 import { convertContentToString } from './utils';
 import { createErrorResponse } from './errors';
+import { MAX_CHOICES } from './config';
+import { DEFAULTS, OLLAMA_PASSTHROUGH_OPTIONS } from './constants';
 
 export const validateModel = (model: string, availableModels: string[]): boolean => 
   availableModels.includes(model);
@@ -60,7 +62,9 @@ export const validateRequest = (body: OpenAIChatRequest) => {
   return null;
 };
 
-export const validateParameters = (body: OpenAIChatRequest) => {
+export const validateParameters = (
+  body: Pick<OpenAIChatRequest, 'temperature' | 'top_p' | 'max_tokens' | 'n' | 'stop' | 'reasoning_effort' | 'think' | 'options'>
+) => {
   if (body.temperature !== undefined && (body.temperature < 0 || body.temperature > 2)) {
     return createErrorResponse(
       'Temperature must be between 0 and 2',
@@ -88,14 +92,175 @@ export const validateParameters = (body: OpenAIChatRequest) => {
     );
   }
 
-  if (body.n !== undefined && body.n !== 1) {
+  if (body.stop !== undefined) {
+    const stops = Array.isArray(body.stop) ? body.stop : [body.stop];
+    if (stops.length > DEFAULTS.MAX_STOP_SEQUENCES || stops.some(sequence => typeof sequence !== 'string')) {
+      return createErrorResponse(
+        `Stop must be a string or an array of up to ${DEFAULTS.MAX_STOP_SEQUENCES} strings`,
+        'invalid_request_error',
+        400,
+        'stop'
+      );
+    }
+  }
+
+  if (body.reasoning_effort !== undefined && !['low', 'medium', 'high'].includes(body.reasoning_effort)) {
+    return createErrorResponse(
+      'Reasoning_effort must be one of low, medium or high',
+      'invalid_request_error',
+      400,
+      'reasoning_effort'
+    );
+  }
+
+  if (body.think !== undefined && typeof body.think !== 'boolean') {
+    return createErrorResponse(
+      'Think must be a boolean',
+      'invalid_request_error',
+      400,
+      'think'
+    );
+  }
+
+  if (body.n !== undefined && (!Number.isInteger(body.n) || body.n < 1 || body.n > MAX_CHOICES)) {
     return createErrorResponse(
-      'Only n=1 is supported',
+      `N must be an integer between 1 and ${MAX_CHOICES}`,
       'invalid_request_error',
       400,
       'n'
     );
   }
 
+  if (body.options !== undefined) {
+    return validatePassthroughOptions(body.options);
+  }
+
+  return null;
+};
+
+export const validateToolChoice = (body: Pick<OpenAIChatRequest, 'tools' | 'tool_choice' | 'parallel_tool_calls'>) => {
+  const { tools, tool_choice: toolChoice } = body;
+
+  if (toolChoice !== undefined) {
+    const validChoice = ['none', 'auto', 'required'].includes(toolChoice as string) ||
+      (typeof toolChoice === 'object' && toolChoice?.type === 'function' && typeof toolChoice.function?.name === 'string');
+    if (!validChoice) {
+      return createErrorResponse(
+        'Tool_choice must be none, auto, required or {"type": "function", "function": {"name": ...}}',
+        'invalid_request_error',
+        400,
+        'tool_choice'
+      );
+    }
+  }
+
+  if ((toolChoice === 'required' || typeof toolChoice === 'object') && !tools?.length) {
+    return createErrorResponse(
+      'Tool_choice requires a tool call, but no tools were provided',
+      'invalid_request_error',
+      400,
+      'tool_choice'
+    );
+  }
+
+  if (typeof toolChoice === 'object' && !tools?.some(tool => tool.function.name === toolChoice.function.name)) {
+    return createErrorResponse(
+      `Tool_choice names the function '${toolChoice.function.name}', which is not in tools`,
+      'invalid_request_error',
+      400,
+      'tool_choice'
+    );
+  }
+
+  if (body.parallel_tool_calls !== undefined && typeof body.parallel_tool_calls !== 'boolean') {
+    return createErrorResponse(
+      'Parallel_tool_calls must be a boolean',
+      'invalid_request_error',
+      400,
+      'parallel_tool_calls'
+    );
+  }
+
   return null;
 };
+
+export const validatePassthroughOptions = (options: unknown) => {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return createErrorResponse(
+      'Options must be an object',
+      'invalid_request_error',
+      400,
+      'options'
+    );
+  }
+
+  for (const [key, value] of Object.entries(options)) {
+    if (!(OLLAMA_PASSTHROUGH_OPTIONS as readonly string[]).includes(key)) {
+      return createErrorResponse(
+        `Unsupported option: ${key}. Supported options are ${OLLAMA_PASSTHROUGH_OPTIONS.join(', ')}`,
+        'invalid_request_error',
+        400,
+        `options.${key}`
+      );
+    }
+
+    const validType = key === 'keep_alive'
+      ? typeof value === 'string' || typeof value === 'number'
+      : typeof value === 'number' && Number.isFinite(value);
+    if (!validType) {
+      return createErrorResponse(
+        `Invalid value for options.${key}`,
+        'invalid_request_error',
+        400,
+        `options.${key}`
+      );
+    }
+  }
+
+  const { num_ctx, mirostat } = options as Record<string, number>;
+  if (num_ctx !== undefined && (!Number.isInteger(num_ctx) || num_ctx < 1)) {
+    return createErrorResponse(
+      'Options.num_ctx must be a positive integer',
+      'invalid_request_error',
+      400,
+      'options.num_ctx'
+    );
+  }
+
+  if (mirostat !== undefined && ![0, 1, 2].includes(mirostat)) {
+    return createErrorResponse(
+      'Options.mirostat must be 0, 1 or 2',
+      'invalid_request_error',
+      400,
+      'options.mirostat'
+    );
+  }
+
+  return null;
+};
+
+export const validateCompletionRequest = (body: OpenAICompletionRequest) => {
+  if (!body.model) {
+    return createErrorResponse('Missing required parameter: model', 'invalid_request_error', 400, 'model');
+  }
+
+  const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt];
+  if (body.prompt === undefined || prompts.length === 0 || prompts.some(p => typeof p !== 'string')) {
+    return createErrorResponse(
+      'Missing required parameter: prompt (a string or an array of strings)',
+      'invalid_request_error',
+      400,
+      'prompt'
+    );
+  }
+
+  if (body.suffix !== undefined && typeof body.suffix !== 'string') {
+    return createErrorResponse('Suffix must be a string', 'invalid_request_error', 400, 'suffix');
+  }
+
+  if (body.n !== undefined && body.n !== 1) {
+    return createErrorResponse('Only n=1 is supported for completions', 'invalid_request_error', 400, 'n');
+  }
+
+  return validateParameters(body);
+};